@@ -1,12 +1,14 @@
 import { Graph } from "../base/graph";
-import { IInvocation, IPipe, IResult, TWorker } from "../types";
+import { Session } from "../base/session";
+import { IInvocation, IPipe, IResult, ISessionOptions, TWorker } from "../types";
 
-export class Pipe {
+export class Pipe<TState extends Record<string, any> = any, TOutput = any> {
     _type = "pipe";
 
     workers: TWorker[]; // Contains instances, not plain objects
     name: string;
     description: string;
+    timeoutMs?: number;
 
     /**
      * Initializes a new instance of the Pipe class.
@@ -18,11 +20,13 @@ export class Pipe {
      * @param {TWorker[]} pipeConfig.workers - An array of worker instances.
      * @param {string} pipeConfig.name - The name of the pipe.
      * @param {string} pipeConfig.description - A description of the pipe.
+     * @param {number} [pipeConfig.timeoutMs] - Cancels invocations of the pipe which take longer.
      */
     constructor(pipeConfig: IPipe) {
         this.workers = pipeConfig.workers; // Make sure `pipe` contains instances, not config objects
         this.name = pipeConfig.name;
         this.description = pipeConfig.description;
+        this.timeoutMs = pipeConfig.timeoutMs;
     }
 
     /**
@@ -32,14 +36,15 @@ export class Pipe {
      * prompt injections, result evaluations, and state manipulations. It iterates through
      * the configured workers to ensure the pipe produces a final output.
      * 
-     * @param {IInvocation} i - The invocation object containing the state and task.
-     * @returns {Promise<IResult>} A promise that resolves to the final result of the invocation.
+     * @param {IInvocation<TState>} i - The invocation object containing the state and task.
+     * @returns {Promise<IResult<TState, TOutput>>} A promise that resolves to the final result of the invocation.
      */
-    async invoke(i: IInvocation): Promise<IResult> {
+    async invoke(i: IInvocation<TState>): Promise<IResult<TState, TOutput>> {
         // 1) Create a new Graph
-        const graph = new Graph({
-            name: "pipe_graph",
-            description: "the graph of a pipe"
+        const graph = new Graph<TState, TOutput>({
+            name: `${this.name}`,
+            description: this.description,
+            timeoutMs: this.timeoutMs
         });
 
         // 2) We'll chain from "START" -> agentOrPipe1 -> agentOrPipe2 -> ... -> "END"
@@ -60,8 +65,7 @@ export class Pipe {
 
         // 4) Invoke the graph
         const result = await graph.invoke({
-            state: i.state,
-            task: i.task,
+            ...i,
             startNode: "START",
         });
 
@@ -69,6 +73,20 @@ export class Pipe {
         return {
             history: result.history,
             state: result.state,
+            output: result.output,
+            usage: result.usage,
         };
     }
+
+    /**
+     * Returns the session with the given id. Its send method runs the pipe with the next message
+     * and the history and state of the session.
+     *
+     * @param {string} id - The id of the conversation, e.g. a chat thread.
+     * @param {ISessionOptions} [options] - The session store and the state of new sessions.
+     * @returns {Session} - The handle of the session.
+     */
+    session(id: string, options?: ISessionOptions): Session {
+        return new Session(this, id, options);
+    }
 }
@@ -7,10 +7,12 @@ import { Agent } from "../base/agent";
 import { Graph } from "../base/graph";
 import { State } from "../base/state";
 import { Logger } from "../helper/logger";
+import { emptyUsageReport, mergeUsageReports } from "../helper/usage";
+import { withTimeout } from "../helper/cancellation";
 
 import { chooseBetween, focusOn, isSet, set } from "../lifecycles";
 import { Pipe } from "./pipe";
-import { EModels, EOutput, IAgentFactory, IAgentFactoryOutputProperty, IInvocation, IResult, ISupervisor, TWorker } from "../types";
+import { EOutput, IAgentFactory, IAgentFactoryOutputProperty, IInvocation, IResult, ISupervisor, TModels, TWorker } from "../types";
 /** 
  * The SupervisorState shape 
  */
@@ -220,8 +222,9 @@ export class Supervisor {
     _type = "supervisor";
     name: string;
     description: string;
-    model: EModels;
+    model: TModels | TModels[];
     workers: TWorker[];
+    timeoutMs?: number;
     logger: Logger;
 
     /**
@@ -239,7 +242,8 @@ export class Supervisor {
         this.description = config.description;
         this.workers = config.workers;
         this.logger = new Logger();
-        this.model = config.model as EModels;
+        this.model = config.model;
+        this.timeoutMs = config.timeoutMs;
     }
 
     /**
@@ -249,10 +253,13 @@ export class Supervisor {
      * 3) Spawns and adds those agents to the workers list
      * 4) Builds and invokes the final Graph
      *
-     * @param invocation IInvocation object containing state, task, etc.
+     * @param i IInvocation object containing state, task, etc.
      * @returns IResult with combined history and updated state.
      */
-    async invoke(invocation: IInvocation): Promise<IResult> {
+    async invoke(i: IInvocation): Promise<IResult> {
+        // the timeout covers planning and running the graph
+        const invocation = { ...i, signal: withTimeout(i.signal, this.timeoutMs) };
+
         // 1. Prepare a shared state for the Supervisor
         const supervisorState = this.createSupervisorState();
 
@@ -267,9 +274,9 @@ export class Supervisor {
             workers: [supervisorAgent, agentFactoryAgent],
         });
 
-        await supervisorPipe.invoke({
+        const supervisorResult = await supervisorPipe.invoke({
+            ...invocation,
             state: supervisorState,
-            task: invocation.task,
         });
 
         // 4. After pipeline: spawn additional workers if any
@@ -278,12 +285,14 @@ export class Supervisor {
         // 5. Build the graph and invoke it
         const result = await this.buildAndInvokeGraph(supervisorState, invocation);
 
-        // 6. Combine supervisor's and final graph's histories
-        const combinedHistory = [...supervisorAgent.history, ...result.history];
+        // 6. Combine the planning pipe's and final graph's histories and usage
+        const combinedHistory = [...supervisorResult.history, ...result.history];
+        const usage = mergeUsageReports(mergeUsageReports(emptyUsageReport(), supervisorResult.usage), result.usage);
 
         return {
             history: combinedHistory,
             state: result.state,
+            usage,
         };
     }
 
@@ -470,8 +479,7 @@ export class Supervisor {
 
         // Finally, invoke the graph
         return graph.invoke({
-            state: invocation.state,
-            task: invocation.task,
+            ...invocation,
             startNode: "START",
         });
     }
@@ -1,13 +1,15 @@
 import { Agent } from "../base/agent";
+import { Session } from "../base/session";
 import { Graph } from "../base/graph";
-import { IInvocation, IResult, ITeam, TWorker } from "../types";
+import { IInvocation, IResult, ISessionOptions, ITeam, TWorker } from "../types";
 
-export class Team {
+export class Team<TState extends Record<string, any> = any, TOutput = any> {
     _type = "team";
     name: string;
     description: string;
     supervisor: Agent;
     workers: TWorker[];
+    timeoutMs?: number;
 
     /**
      * Constructs a new Team instance with the provided configuration.
@@ -17,26 +19,29 @@ export class Team {
      * @param {TWorker[]} config.workers - The list of workers in the team.
      * @param {string} config.name - The name of the team.
      * @param {string} config.description - The description of the team.
+     * @param {number} [config.timeoutMs] - Cancels invocations of the team which take longer.
      */
     constructor(config: ITeam) {
         this.supervisor = config.supervisor;
         this.workers = config.workers;
         this.name = config.name;
         this.description = config.description;
+        this.timeoutMs = config.timeoutMs;
     }
 
     /**
      * Invokes the team by creating and executing a graph.
      * The graph starts with the supervisor and conditionally routes to child agents based on the state.
      * 
-     * @param {IInvocation} i - The invocation object containing the state and task.
-     * @returns {Promise<IResult>} - A promise that resolves to the result of the graph invocation, including the final state and combined history.
+     * @param {IInvocation<TState>} i - The invocation object containing the state and task.
+     * @returns {Promise<IResult<TState, TOutput>>} - A promise that resolves to the result of the graph invocation, including the final state and combined history.
      */
-    async invoke(i: IInvocation): Promise<IResult> {
+    async invoke(i: IInvocation<TState>): Promise<IResult<TState, TOutput>> {
         // 1) Create a new Graph
-        const graph = new Graph({
-            name: "team_graph",
-            description: "the graph of a team"
+        const graph = new Graph<TState, TOutput>({
+            name: `${this.name}`,
+            description: this.description,
+            timeoutMs: this.timeoutMs
         });
 
         // 2) Add an edge from START to the supervisor
@@ -49,11 +54,11 @@ export class Team {
             // You can decide how you want to map `context.state.next` to an agent.
             // e.g. if each agent has a name/id property:
 
-            if (context.state.router.done) {
+            if (context.getState().router.done) {
                 return "END";
             }
 
-            const nextKey = context.state.router.next;
+            const nextKey = context.getState().router.next;
             const foundAgent = this.workers.find(
                 (worker) => (worker as TWorker).name === nextKey // or agent.name === nextKey
             );
@@ -67,8 +72,7 @@ export class Team {
 
         // 5) Finally, invoke the graph from START
         const result = await graph.invoke({
-            state: i.state,
-            task: i.task,
+            ...i,
             startNode: "START",
         });
 
@@ -76,6 +80,20 @@ export class Team {
         return {
             history: result.history,
             state: result.state,
+            output: result.output,
+            usage: result.usage,
         };
     }
+
+    /**
+     * Returns the session with the given id. Its send method invokes the team with the next
+     * message, so the supervisor and the workers see the earlier messages of the thread.
+     *
+     * @param {string} id - The id of the conversation, e.g. a chat thread.
+     * @param {ISessionOptions} [options] - The session store and the state of new sessions.
+     * @returns {Session} - The handle of the session.
+     */
+    session(id: string, options?: ISessionOptions): Session {
+        return new Session(this, id, options);
+    }
 }
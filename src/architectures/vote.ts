@@ -1,12 +1,14 @@
 import { Graph } from "../base/graph";
-import { IInvocation, IResult, IVote, TWorker } from "../types";
+import { Session } from "../base/session";
+import { IInvocation, IResult, ISessionOptions, IVote, TWorker } from "../types";
 
-export class Vote {
+export class Vote<TState extends Record<string, any> = any, TOutput = any> {
     _type = "vote";
     name: string;
     description: string;
     workers: TWorker[];
     synthesizer: TWorker;
+    timeoutMs?: number;
 
     /**
      * Constructs a new Vote instance with the provided configuration.
@@ -16,6 +18,7 @@ export class Vote {
      * @param {string} [config.description] - The description of the vote.
      * @param {TWorker[]} config.workers - The list of worker agents in the vote.
      * @param {Agent} config.synthesizer - The synthesizer agent for the vote.
+     * @param {number} [config.timeoutMs] - Cancels invocations of the vote which take longer.
      * @throws {Error} - Throws an error if the name is not provided, if the workers array is empty or not provided, or if the synthesizer is not provided.
      */
     constructor(config: IVote) {
@@ -33,6 +36,7 @@ export class Vote {
         this.description = config.description || "";
         this.workers = config.workers;
         this.synthesizer = config.synthesizer;
+        this.timeoutMs = config.timeoutMs;
     }
 
     /**
@@ -40,14 +44,15 @@ export class Vote {
      * The graph starts with a parallel edge from START to all worker agents, leading to the synthesizer.
      * The synthesizer then leads to END. The graph is invoked starting from START.
      * 
-     * @param {IInvocation} i - The invocation object containing the state and task.
-     * @returns {Promise<IResult>} - A promise that resolves to the result of the graph invocation, including the final state and combined history.
+     * @param {IInvocation<TState>} i - The invocation object containing the state and task.
+     * @returns {Promise<IResult<TState, TOutput>>} - A promise that resolves to the result of the graph invocation, including the final state and combined history.
      */
-    async invoke(i: IInvocation): Promise<IResult> {
+    async invoke(i: IInvocation<TState>): Promise<IResult<TState, TOutput>> {
         // 1) Create a new Graph
-        const graph = new Graph({
+        const graph = new Graph<TState, TOutput>({
             name: `${this.name}`,
-            description: this.description
+            description: this.description,
+            timeoutMs: this.timeoutMs
         });
 
         // 2) Add parallel edges from START to all worker agents, leading to the synthesizer
@@ -58,8 +63,7 @@ export class Vote {
 
         // 4) Invoke the graph starting from START
         const result = await graph.invoke({
-            state: i.state,
-            task: i.task,
+            ...i,
             startNode: "START",
         });
 
@@ -67,6 +71,20 @@ export class Vote {
         return {
             history: result.history,
             state: result.state,
+            output: result.output,
+            usage: result.usage,
         };
     }
+
+    /**
+     * Returns the session with the given id. Its send method runs the vote with the next message
+     * and the history and state of the session.
+     *
+     * @param {string} id - The id of the conversation, e.g. a chat thread.
+     * @param {ISessionOptions} [options] - The session store and the state of new sessions.
+     * @returns {Session} - The handle of the session.
+     */
+    session(id: string, options?: ISessionOptions): Session {
+        return new Session(this, id, options);
+    }
 }
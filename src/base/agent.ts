@@ -1,51 +1,97 @@
-import { openaiCompletion } from "../provider/openai";
-import { groqCompletion } from "../provider/groq";
+import { getProvider, splitProviderModel } from "../provider/registry";
+import { cassetteCompletion } from "../provider/cassette";
+import { cachedCompletion } from "../provider/cache";
+import { getProviderConfig } from "../provider/config";
+import { getContextLength, validateAgentCapabilities, validateInvocationCapabilities } from "../provider/capabilities";
+import { slidingWindow } from "./history";
+import { Session } from "./session";
 import { Logger } from "../helper/logger"
-import { ZodSchema } from "zod";
-import { TModels, EOutput, IActionResult, IAgent, ICompletionConfig, ICompletionInput, ICompletionResult, IInvocation, ILifecycle, IMessage, IProviderModelSplit, IResult } from "../types";
+import { streamEvents } from "../helper/stream";
+import { State } from "./state";
+import { abortable, CancellationError, describeAbort, withTimeout } from "../helper/cancellation";
+import { estimateTokens, mergeUsageReports, summarizeUsage } from "../helper/usage";
+import { ZodType } from "zod";
+import { TModels, EOutput, IActionResult, IAgent, IAgentResult, ICompletionConfig, ICompletionInput, ICompletionResult, IEvaluationContext, IEvaluationFunction, IInvocation, ILifecycle, IMessage, IModelParams, IProviderConfig, IResult, IRetryPolicy, ITemplate, ISessionOptions, IUsageReport, THistoryStrategy, TProviderConfigs, TStreamEvent, TStreamListener } from "../types";
 
+// the tokens reserved for the answer if the agent sets no maxTokens
+const DEFAULT_ANSWER_TOKENS = 4096;
 
-export class Agent {
+export class Agent<TState extends Record<string, any> = any, TOutput = any> {
     _type = "agent"
 
-    lifecycle: ILifecycle;
+    lifecycle: ILifecycle<TState>;
     name: string;
     description: string;
-    task: string;
+    task: string; // the source of a templated task
+    banner?: string | false;
     retries: number;
-    model: TModels;
+    model: TModels | TModels[];
     outputType: EOutput;
-    outputSchema?: ZodSchema;
+    outputSchema?: ZodType<TOutput, any, any>;
     tools?: any[];
-    history: IMessage[];
+    maxToolIterations?: number;
+    retryPolicy?: Partial<IRetryPolicy>;
+    modelParams?: IModelParams;
+    providerConfig?: TProviderConfigs;
+    historyStrategy: THistoryStrategy;
+    timeoutMs?: number;
+    memory: boolean;
+    history: IMessage[]; // the memory of the agent, only kept if memory is enabled
     logger: Logger
+    private template?: ITemplate<TState>;
 
     /**
-     * Creates an instance of an Agent.
+     * Creates an instance of an Agent. The agent is typed by the shape of its state and its output.
+     * Without type arguments both are inferred, the output from the outputSchema. With the state
+     * given, e.g. new Agent<IWeatherState>({ ... }), the output is any unless it is given too;
+     * defineAgent<IWeatherState>()({ ... }) still infers it.
      * 
-     * @param {IAgent} agentConfig - The configuration object for the agent.
-     * @param {ILifecycle} agentConfig.lifecycle - The lifecycle of the agent.
+     * @param {IAgent<TState, TOutput>} agentConfig - The configuration object for the agent.
+     * @param {ILifecycle<TState>} agentConfig.lifecycle - The lifecycle of the agent.
      * @param {string} agentConfig.name - The name of the agent.
      * @param {string} agentConfig.description - The description of the agent.
-     * @param {string} agentConfig.task - The task assigned to the agent.
+     * @param {string | ITemplate<TState>} agentConfig.task - The task assigned to the agent, or a template rendered with the state of every invocation.
+     * @param {string | false} [agentConfig.banner] - Replaces the reminder of the evaluation results between the agent's task and the user task, false removes it.
      * @param {number} agentConfig.retries - The number of retries allowed for the agent.
-     * @param {TModels} agentConfig.model - The model used by the agent.
+     * @param {TModels | TModels[]} agentConfig.model - The model used by the agent, or a fallback chain of models tried in order.
      * @param {EOutput} agentConfig.outputType - The type of output expected from the agent.
-     * @param {ZodSchema} [agentConfig.outputSchema] - The optional schema for validating the agent's output.
+     * @param {ZodType<TOutput>} [agentConfig.outputSchema] - The optional schema for validating the agent's output, which types the output of its results.
      * @param {any[]} [agentConfig.tools] - The optional tools available to the agent.
+     * @param {number} [agentConfig.maxToolIterations] - The maximum number of tool calling rounds of a TOOL_CALL agent.
+     * @param {Partial<IRetryPolicy>} [agentConfig.retryPolicy] - Overrides the provider's retry policy for failed requests.
+     * @param {IModelParams} [agentConfig.modelParams] - The sampling parameters, overridable per invocation.
+     * @param {TProviderConfigs} [agentConfig.providerConfig] - The provider configurations of the agent, e.g. its API keys.
+     * @param {THistoryStrategy} [agentConfig.historyStrategy] - Shortens the history sent to the model, defaults to a sliding window over the model's context length.
+     * @param {number} [agentConfig.timeoutMs] - Cancels invocations which take longer, including all retries.
+     * @param {boolean} [agentConfig.memory] - Carries the history over to later invocations. By default every invocation starts with an empty history. Sessions keep their own history instead.
      */
-    constructor(agentConfig: IAgent) {
+    constructor(agentConfig: IAgent<TState, TOutput>) {
         this.lifecycle = agentConfig.lifecycle;
         this.name = agentConfig.name;
         this.description = agentConfig.description;
-        this.task = agentConfig.task;
+        if (typeof agentConfig.task === "string") {
+            this.task = agentConfig.task;
+        } else {
+            this.task = agentConfig.task.source;
+            this.template = agentConfig.task;
+        }
+        this.banner = agentConfig.banner;
         this.retries = agentConfig.retries;
         this.model = agentConfig.model;
         this.outputType = agentConfig.outputType;
         this.tools = agentConfig.tools;
+        this.maxToolIterations = agentConfig.maxToolIterations;
+        this.retryPolicy = agentConfig.retryPolicy;
+        this.modelParams = agentConfig.modelParams;
+        this.providerConfig = agentConfig.providerConfig;
+        this.historyStrategy = agentConfig.historyStrategy ?? slidingWindow();
+        this.timeoutMs = agentConfig.timeoutMs;
+        this.memory = agentConfig.memory ?? false;
         this.outputSchema = agentConfig.outputSchema;
         this.history = []
         this.logger = new Logger()
+
+        validateAgentCapabilities(this);
     }
 
     /**
@@ -55,18 +101,32 @@ export class Agent {
      * prompt injections, result evaluations, and state manipulations. It iterates through
      * the configured retries to ensure the agent produces a final output.
      * 
-     * @param {IInvocation} i - The invocation object containing the state and task.
-     * @returns {Promise<IResult>} A promise that resolves to the final result of the invocation.
+     * Every invocation owns its history, so one agent can serve concurrent invocations. Agents with
+     * memory start from a copy of their history and append the invocation's messages on success.
+     * The history of the invocation, e.g. of a session, replaces the memory and is not added to it,
+     * so its turns are neither repeated nor leaked into other sessions.
+     * 
+     * @param {IInvocation<TState>} i - The invocation object containing the state and task.
+     * @returns {Promise<IAgentResult<TState, TOutput>>} A promise that resolves to the final result of the invocation, including the parsed output.
+     * @throws {CancellationError} - If the invocation's signal aborts or the agent's timeout expires.
      */
-    async invoke(i: IInvocation): Promise<IResult> {
+    async invoke(i: IInvocation<TState>): Promise<IAgentResult<TState, TOutput>> {
+        const history: IMessage[] = [...(i.history ?? (this.memory ? this.history : []))];
+        // the messages of this invocation start here
+        const start = history.length;
+        const signal = withTimeout(i.signal, this.timeoutMs);
+        // the messages of models which failed over, only kept for the usage report
+        const failedAttempts: IMessage[] = [];
+        // the usage of other model calls, e.g. of history summaries
+        const otherUsage: IUsageReport[] = [];
+
         try {
+            validateInvocationCapabilities(this, i);
 
-            let task = this.handlePromptInjections(this.task, i.state)
+            let task = this.handlePromptInjections(this.renderTask(i), i.state)
 
-            this.history.push({
-                name: this.name,
-                role: "user",
-                content: `${task} 
+            const text = this.banner === undefined
+                ? `${task} 
                 
                 !PLEASE LOOK ALWAYS AT THE SYSTEM MESSAGES FOR EVALUATION RESULTS TO IMPROVE YOUR OUTPUT!
                 
@@ -74,20 +134,45 @@ export class Agent {
 
                 ${i.task}
                 `
+                : [task, this.banner, i.task].filter(Boolean).join("\n\n");
 
+            history.push({
+                name: this.name,
+                role: "user",
+                // attachments turn the task into multimodal content
+                content: i.attachments?.length ? [{ type: "text", text }, ...i.attachments] : text
             });
 
             let result;
+            let finalOutput: TOutput | undefined;
             for (let retry = 0; retry < this.retries; retry++) {
+                signal?.throwIfAborted();
 
                 result = await this.completion({
                     task: task,
-                    history: this.history
-                });
-
-                this.history.push(result);
+                    history,
+                    onEvent: i.onEvent,
+                    modelParams: { ...this.modelParams, ...i.modelParams },
+                    cache: i.cache,
+                    signal,
+                    onUsage: (usage) => otherUsage.push(usage)
+                }, failedAttempts, i.providerConfig);
+
+                history.push(result);
+
+                // output which does not match the schema fails like a result evaluation, so the retries can correct it
+                const parsed = this.parseOutput(result);
+                if ("reason" in parsed) {
+                    const evaluation: IActionResult = { pass: false, reason: parsed.reason };
+                    history.push({ name: "evaluator", role: "system", content: JSON.stringify(evaluation) });
+                    i.onEvent?.({ type: "evaluation", agent: this.name, result: evaluation });
+                }
 
-                const evaluations = await this.handleResultEvaluations(result);
+                const evaluations = "reason" in parsed ? { pass: false } : await this.handleResultEvaluations(result, history, {
+                    agent: this.name,
+                    resolveProviderConfig: (provider) => this.resolveProviderConfig(provider, i.providerConfig),
+                    signal
+                }, i.onEvent);
 
                 const output: ICompletionResult = {
                     final: evaluations.pass,
@@ -95,7 +180,8 @@ export class Agent {
                 };
                 this.logger.result(this.name, output);
 
-                if (output.final) {
+                if (output.final && "output" in parsed) {
+                    finalOutput = parsed.output;
                     break;
                 }
 
@@ -107,68 +193,220 @@ export class Agent {
 
             this.handleStateManipulations(result, i.state, "afterRun")
 
+            const messages = history.slice(start);
+            if (this.memory && !i.history) {
+                this.history.push(...messages);
+            }
+
             return {
-                history: this.history,
-                state: i.state
+                history: messages,
+                state: i.state,
+                output: finalOutput as TOutput,
+                usage: otherUsage.reduce((report, usage) => mergeUsageReports(report, usage), summarizeUsage(this.name, [...messages, ...failedAttempts]))
             };
         } catch (error) {
+            if (signal?.aborted) {
+                throw new CancellationError(`Agent "${this.name}" was cancelled: ${describeAbort(signal, this.timeoutMs)}`, history.slice(start), i.state);
+            }
             console.error("Error invoking completion:", error);
             throw error;
         }
     }
 
-    private async completion(i: ICompletionInput): Promise<any | null> {
-        const { provider, model } = this.extractProviderAndModel();
+    /**
+     * Invokes the agent and streams its progress.
+     * 
+     * The returned iterator yields token deltas, partial JSON of structured outputs, tool calls
+     * and evaluation results while the agent runs, and finally a "result" event with the IResult.
+     * 
+     * @param {IInvocation<TState>} i - The invocation object containing the state and task.
+     * @returns {AsyncGenerator<TStreamEvent, IAgentResult<TState, TOutput>>} An async iterator of the invocation's events.
+     */
+    stream(i: IInvocation<TState>): AsyncGenerator<TStreamEvent, IAgentResult<TState, TOutput>> {
+        return streamEvents((onEvent, signal) => this.invoke({ ...i, onEvent, signal }), i.signal);
+    }
+
+    /**
+     * Returns the session with the given id. Its send method sends the next message of the user,
+     * the agent sees the earlier messages of the session. Shared agents can hold any number of sessions.
+     *
+     * @param {string} id - The id of the conversation, e.g. a chat thread.
+     * @param {ISessionOptions} [options] - The session store and the state of new sessions.
+     * @returns {Session} - The handle of the session.
+     */
+    session(id: string, options?: ISessionOptions): Session {
+        return new Session(this, id, options);
+    }
 
-        const providerMap: Record<string, (args: ICompletionConfig) => Promise<any>> = {
-            openai: openaiCompletion,
-            groq: groqCompletion,
-        };
+    /**
+     * Requests a completion, failing over along the agent's model chain.
+     * A model fails if its provider throws (e.g. outages, timeouts or rate limits), returns no
+     * message or, unless it is the last model, returns output which does not parse.
+     * Intermediate messages of a failed model are dropped, only those of the answering model
+     * are added to the history. The failed model's messages go to failedAttempts, so the tokens
+     * it used are still reported.
+     */
+    private async completion(i: ICompletionInput, failedAttempts: IMessage[], providerConfigs?: TProviderConfigs): Promise<IMessage> {
+        const models = Array.isArray(this.model) ? this.model : [this.model];
+        if (models.length === 0) {
+            throw new Error(`Agent "${this.name}" has no model configured.`);
+        }
+
+        const failures: string[] = [];
+        for (const [index, model] of models.entries()) {
+            const messages: IMessage[] = [];
+            try {
+                const result = await this.modelCompletion(model, { ...i, history: [...i.history] }, messages, providerConfigs);
+                if (!result) {
+                    throw new Error(`Model "${model}" returned no result.`);
+                }
+
+                // The last model's output is kept, so the result evaluations and retries can handle it
+                const reason = this.checkCompletionContent(model, result);
+                if (reason && index < models.length - 1) {
+                    messages.push({ ...result, model });
+                    throw new Error(reason);
+                }
+
+                i.history.push(...messages);
+                return { ...result, model };
+            } catch (error) {
+                // a cancelled invocation must not fail over to the next model
+                if (i.signal?.aborted) {
+                    throw error;
+                }
+                failedAttempts.push(...messages.map((message) => ({ ...message, failed: true })));
+                failures.push(`"${model}": ${error instanceof Error ? error.message : error}`);
+                if (index < models.length - 1) {
+                    console.warn(`Model "${model}" failed for agent "${this.name}", falling back to "${models[index + 1]}".`);
+                }
+            }
+        }
 
-        const completionFn = providerMap[provider];
-        if (!completionFn) {
+        throw new Error(`Agent "${this.name}" failed on all models. ${failures.join(" ")}`);
+    }
+
+    private async modelCompletion(providerModel: TModels, i: ICompletionInput, messages: IMessage[], providerConfigs?: TProviderConfigs): Promise<IMessage | undefined> {
+        const { provider, model } = splitProviderModel(providerModel);
+
+        const registeredProvider = getProvider(provider);
+        if (!registeredProvider) {
             throw new Error(`Unsupported provider: "${provider}". Please check your configuration.`);
         }
 
-        return await completionFn({
+        const completionFn = (completionConfig: ICompletionConfig) => cassetteCompletion(provider, registeredProvider.completion, completionConfig);
+
+        return await abortable(cachedCompletion(provider, completionFn, {
             model,
             task: i.task,
-            history: i.history,
+            history: await this.fitHistory(providerModel, i, providerConfigs),
             name: this.name,
             outputType: this.outputType,
             outputSchema: this.outputSchema,
             tools: this.tools,
-            lifecycle: this.lifecycle
+            maxToolIterations: this.maxToolIterations,
+            lifecycle: this.lifecycle,
+            onEvent: i.onEvent,
+            modelParams: i.modelParams,
+            signal: i.signal,
+            retryPolicy: { ...registeredProvider.retryPolicy, ...this.retryPolicy },
+            providerConfig: this.resolveProviderConfig(provider, providerConfigs),
+            onMessage: (message) => {
+                const recorded = message.role === "assistant" ? { ...message, model: providerModel } : message;
+                i.history.push(recorded);
+                messages.push(recorded);
+            }
+        }, i.cache ?? true), i.signal);
+    }
+
+    /**
+     * Applies the history strategy with the tokens the model's context window leaves for the history
+     * after the task and the answer. The agent's own history keeps all messages.
+     */
+    private async fitHistory(model: TModels, i: ICompletionInput, providerConfigs?: TProviderConfigs): Promise<IMessage[]> {
+        const contextLength = getContextLength(model);
+        const maxTokens = contextLength === undefined
+            ? Infinity
+            : contextLength - estimateTokens(i.task) - (i.modelParams?.maxTokens ?? Math.min(DEFAULT_ANSWER_TOKENS, Math.floor(contextLength / 4)));
+
+        return this.historyStrategy(i.history, {
+            agent: this.name,
+            model,
+            maxTokens,
+            providerConfig: this.mergeProviderConfigs(providerConfigs),
+            signal: i.signal,
+            cache: i.cache,
+            onUsage: i.onUsage
         });
     }
 
+    /**
+     * Merges the invocation's provider configurations over the agent's, per provider.
+     */
+    private mergeProviderConfigs(providerConfigs?: TProviderConfigs): TProviderConfigs {
+        const providers = new Set([...Object.keys(this.providerConfig ?? {}), ...Object.keys(providerConfigs ?? {})]);
+        return [...providers].reduce((merged: TProviderConfigs, provider) => {
+            merged[provider] = { ...this.providerConfig?.[provider], ...providerConfigs?.[provider] };
+            return merged;
+        }, {});
+    }
 
-    private extractProviderAndModel(): IProviderModelSplit {
-        const regex = /^(.*?)\//;
-        const match = this.model.match(regex);
-        if (!match || !match[1]) {
-            throw new Error(`Invalid provider/model format: "${this.model}". Expected format "provider/model".`);
+    /**
+     * Returns why the content of a completion is unusable: invalid JSON or, for JSON agents,
+     * content which does not match the output schema.
+     */
+    private checkCompletionContent(model: TModels, result: IMessage): string | undefined {
+        let content;
+        try {
+            content = JSON.parse(result.content);
+        } catch (error) {
+            return `Model "${model}" returned invalid JSON: ${error}`;
         }
 
-        const split = this.model.split("/");
-        const provider = split[0];
-        const model = split[1];
+        if (this.outputType === EOutput.JSON && this.outputSchema) {
+            const parsed = this.outputSchema.safeParse(content);
+            if (!parsed.success) {
+                return `Model "${model}" returned output not matching the output schema: ${parsed.error.message}`;
+            }
+        }
+    }
 
-        const supportedProviders = ["openai", "groq"];
-        if (!supportedProviders.includes(provider)) {
-            throw new Error(`Unsupported provider: "${provider}". Supported providers are: ${supportedProviders.join(", ")}.`);
+    /**
+     * Parses an answer into the output of the result. JSON outputs are parsed by the output schema,
+     * so transforms and defaults of the schema apply. Answers which do not match it return the reason.
+     */
+    private parseOutput(result: IMessage): { output: TOutput } | { reason: string } {
+        let content;
+        try {
+            content = JSON.parse(result.content);
+        } catch {
+            return { output: result.content };
         }
 
-        return { provider, model };
+        if (this.outputType === EOutput.JSON && this.outputSchema) {
+            const parsed = this.outputSchema.safeParse(content);
+            if (!parsed.success) {
+                return { reason: `The output does not match the output schema: ${parsed.error.message}` };
+            }
+            return { output: parsed.data };
+        }
+        return { output: content };
     }
 
+    /**
+     * Resolves the configuration of a provider: the global one, overridden by the agent's and the invocation's.
+     */
+    private resolveProviderConfig(provider: string, providerConfigs?: TProviderConfigs): IProviderConfig {
+        return { ...getProviderConfig(provider), ...this.providerConfig?.[provider], ...providerConfigs?.[provider] };
+    }
 
     private async runResultEvaluations(
-        conditions: Array<{ run: (state: any) => Promise<IActionResult> }>,
-        state: any
+        conditions: IEvaluationFunction[],
+        state: any,
+        context: IEvaluationContext
     ): Promise<IActionResult> {
         const conditionResults = await Promise.all(
-            conditions.map((condition) => condition.run(state))
+            conditions.map((condition) => condition.run(state, context))
         );
 
         const hasPassedAll = conditionResults.every((result) => result.pass);
@@ -185,25 +423,26 @@ export class Agent {
         };
     }
 
-    private async handleResultEvaluations(result: any): Promise<{ pass: boolean }> {
+    private async handleResultEvaluations(result: any, history: IMessage[], context: IEvaluationContext, onEvent?: TStreamListener): Promise<{ pass: boolean }> {
         if (!this.lifecycle?.afterRun?.resultEvaluations) {
             return { pass: true }; // No evaluation needed
         }
 
         try {
             const parsedContent = JSON.parse(result.content);
-            const evaluations = await this.runResultEvaluations(this.lifecycle.afterRun.resultEvaluations, parsedContent);
+            const evaluations = await this.runResultEvaluations(this.lifecycle.afterRun.resultEvaluations, parsedContent, context);
 
-            this.history.push({
+            history.push({
                 name: "evaluator",
                 role: "system",
                 content: JSON.stringify(evaluations)
             });
+            onEvent?.({ type: "evaluation", agent: this.name, result: evaluations });
 
             return evaluations || { pass: true }; // Default to true if evaluations are missing "pass"
         } catch (error) {
             console.warn("Evaluation failed due to invalid JSON:", error);
-            this.history.push({
+            history.push({
                 name: "evaluator",
                 role: "system",
                 content: JSON.stringify({ pass: false, error: "Invalid JSON in result.content" })
@@ -212,6 +451,22 @@ export class Agent {
         }
     }
 
+    /**
+     * Renders the task template with the state and the user task of the invocation.
+     */
+    private renderTask(i: IInvocation<TState>): string {
+        if (!this.template) return this.task;
+
+        try {
+            return this.template.render({
+                state: i.state instanceof State ? i.state.getState() : i.state ?? {},
+                task: i.task
+            });
+        } catch (error) {
+            throw new Error(`Task template of agent "${this.name}" failed: ${error}`);
+        }
+    }
+
     private handlePromptInjections(task: string, state: any): string {
         if (
             this.lifecycle &&
@@ -263,3 +518,12 @@ export class Agent {
 
 }
 
+/**
+ * Creates agents of a state type whose output is still inferred from the outputSchema,
+ * e.g. defineAgent<IWeatherState>()({ outputSchema: reportSchema, ... }).
+ *
+ * @returns {(agentConfig: IAgent<TState, TOutput>) => Agent<TState, TOutput>} - Creates an agent of the state type.
+ */
+export const defineAgent = <TState extends Record<string, any>>() => {
+    return <TOutput = any>(agentConfig: IAgent<TState, TOutput>): Agent<TState, TOutput> => new Agent<TState, TOutput>(agentConfig);
+}
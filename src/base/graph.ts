@@ -1,15 +1,23 @@
 import { Agent } from "./agent";
+import { State } from "./state";
+import { Session } from "./session";
+import { TranscriptionAgent } from "./transcription";
+import { validateAgentCapabilities, validateTranscriptionCapabilities } from "../provider/capabilities";
 import { Logger } from "../helper/logger";
+import { streamEvents } from "../helper/stream";
+import { abortable, CancellationError, describeAbort, withTimeout } from "../helper/cancellation";
+import { emptyUsageReport, mergeUsageReports } from "../helper/usage";
 import { Mutex } from 'async-mutex'; // If using mutex for concurrency control
-import { ConditionalEdge, DirectEdge, Edge, IGraph, IGraphInvocation, IMessage, IResult, ParallelEdge, TWorker } from "../types";
+import { ConditionalEdge, DirectEdge, Edge, IGraph, IGraphInvocation, IInvocationOptions, IMessage, IResult, ISessionOptions, IUsageReport, ParallelEdge, TRunHistory, TStreamEvent, TWorker } from "../types";
 
 const logger = new Logger();
 
-export class Graph {
+export class Graph<TState extends Record<string, any> = any, TOutput = any> {
     // Graph metadata
     _type = "graph";
     name: string;
     description: string;
+    timeoutMs?: number;
 
     // Graph structure
     private edges = new Map<TWorker | string, Edge[]>();
@@ -20,15 +28,18 @@ export class Graph {
     private invocationMutex = new Mutex();
 
     /**
-     * Constructs a new Graph instance with the provided configuration.
+     * Constructs a new Graph instance with the provided configuration. The graph is typed by the
+     * shape of its state and the output of its last agent, e.g. new Graph<IWeatherState, IReport>({ ... }).
      *
      * @param {IGraph} config - The configuration object for the graph.
      * @param {string} config.name - The name of the graph.
      * @param {string} config.description - The description of the graph.
+     * @param {number} [config.timeoutMs] - Cancels invocations which take longer.
      */
     constructor(config: IGraph) {
         this.name = config.name;
         this.description = config.description;
+        this.timeoutMs = config.timeoutMs;
 
         // this.validateStartNode();
     }
@@ -46,6 +57,16 @@ export class Graph {
         if (node === undefined || node === null) {
             throw new Error(`Node cannot be undefined or null.`);
         }
+        // agents may have been reconfigured since their construction
+        try {
+            if (node instanceof Agent) {
+                validateAgentCapabilities(node);
+            } else if (node instanceof TranscriptionAgent) {
+                validateTranscriptionCapabilities(node);
+            }
+        } catch (error) {
+            throw new Error(`Invalid node in graph "${this.name}": ${error instanceof Error ? error.message : error}`);
+        }
     }
 
     private nodeExists(node: TWorker | string): boolean {
@@ -128,11 +149,11 @@ export class Graph {
      * Adds a conditional edge from one node to another in the graph.
      *
      * @param {TWorker | string} from - The starting node of the edge.
-     * @param {(state: any) => TWorker | string} fn - The function that determines the target node based on the state.
+     * @param {(state: State<TState>) => TWorker | string} fn - The function that determines the target node based on the state.
      * @returns {this} The current instance of the graph.
      * @throws {Error} If a duplicate edge is detected.
      */
-    public addConditionalEdge(from: TWorker | string, fn: (state: any) => TWorker | string): this {
+    public addConditionalEdge(from: TWorker | string, fn: (state: State<TState>) => TWorker | string): this {
         this.validateNode(from);
         this.validateFunction(fn, `conditional edge from "${String(from)}"`);
 
@@ -229,12 +250,23 @@ export class Graph {
 
     // === Agent Invocation ===
 
-    private async runAgent(agent: Agent, state: any, task: string): Promise<{ state: any, history: IMessage[] }> {
+    /**
+     * Invokes a worker with its own messages of earlier visits in this graph run, so a re-entered
+     * agent like the supervisor of a Team sees its earlier turns. Agents with memory already have them.
+     */
+    private async runAgent(agent: Agent, state: any, task: string, options: IInvocationOptions, runHistory: TRunHistory): Promise<IResult> {
         try {
-            const result = await agent.invoke({ state, task });
+            const earlier = agent.memory ? [] : runHistory.get(agent) ?? [];
+            // without a history of the invocation or of earlier visits, agents with memory use their memory
+            const history = options.history || earlier.length ? [...(options.history ?? []), ...earlier] : undefined;
+            const result = await abortable(agent.invoke({ ...options, history, state, task }), options.signal);
             this.validateAgentResult(agent, result);
-            return { state: result.state, history: result.history };
+            runHistory.set(agent, [...earlier, ...result.history]);
+            return { state: result.state, history: result.history, output: result.output, usage: result.usage };
         } catch (error) {
+            if (error instanceof CancellationError || options.signal?.aborted) {
+                throw error;
+            }
             throw new Error(`Error invoking Agent "${agent.name}": ${error}`);
         }
     }
@@ -258,75 +290,136 @@ export class Graph {
      * It traverses the graph, invoking agents and transitioning between nodes based on the edges.
      * The traversal continues until the "END" node is reached or no more edges are available.
      *
-     * @param {IGraphInvocation} i - The invocation object containing the state, task, and optional start node.
-     * @returns {Promise<IResult>} - A promise that resolves to the result of the graph invocation, including the final state and combined history.
+     * @param {IGraphInvocation<TState>} i - The invocation object containing the state, task, and optional start node.
+     * @returns {Promise<IResult<TState, TOutput>>} - A promise that resolves to the result of the graph invocation, including the final state, combined history and the output of the last agent.
      * @throws {Error} - Throws an error if the invocation inputs are invalid, if an agent invocation fails, or if there is an error picking the next node.
+     * @throws {CancellationError} - If the invocation's signal aborts or the graph's timeout expires. It carries the history and state of the completed nodes.
      */
-    public async invoke(i: IGraphInvocation): Promise<IResult> {
+    public async invoke(i: IGraphInvocation<TState>): Promise<IResult<TState, TOutput>> {
         return this.invocationMutex.runExclusive(async () => {
 
             const startNode = i.startNode ?? "START"
 
             this.validateInvocationInputs(i.state, i.task, startNode);
 
+            const signal = withTimeout(i.signal, this.timeoutMs);
+            const options = { ...this.getInvocationOptions(i), signal };
+
             const combinedHistory: IMessage[] = [];
-            let currentNode: TWorker | string = startNode;
-            const visitedNodes = new Set<TWorker | string>();
-            const MAX_INVOCATIONS = 1000;
-            let invocationCount = 0;
-
-            while (true) {
-                invocationCount++;
-                this.ensureMaxInvocations(invocationCount, MAX_INVOCATIONS);
-
-                if (currentNode === "END") {
-                    console.log("Reached END");
-                    break;
+            try {
+                return await this.traverse(i, startNode, options, combinedHistory);
+            } catch (error) {
+                if (signal?.aborted || error instanceof CancellationError) {
+                    const partial = error instanceof CancellationError ? error.history : [];
+                    const reason = signal?.aborted ? describeAbort(signal, this.timeoutMs) : (error as Error).message;
+                    throw new CancellationError(`Graph "${this.name}" was cancelled: ${reason}`, [...combinedHistory, ...partial], i.state);
                 }
+                throw error;
+            }
+        });
+    }
 
-                visitedNodes.add(currentNode);
+    /**
+     * Traverses the graph from the start node until "END", collecting the history of the invoked workers.
+     */
+    private async traverse(i: IGraphInvocation<TState>, startNode: TWorker | string, options: IInvocationOptions, combinedHistory: IMessage[]): Promise<IResult<TState, TOutput>> {
+        let usage = emptyUsageReport();
+        let output: TOutput | undefined;
+        let currentNode: TWorker | string = startNode;
+        const visitedNodes = new Set<TWorker | string>();
+        const MAX_INVOCATIONS = 1000;
+        let invocationCount = 0;
+        const runHistory: TRunHistory = new Map();
+
+        while (true) {
+            options.signal?.throwIfAborted();
+            invocationCount++;
+            this.ensureMaxInvocations(invocationCount, MAX_INVOCATIONS);
+
+            if (currentNode === "END") {
+                console.log("Reached END");
+                break;
+            }
 
-                if (typeof currentNode !== "string") {
-                    const agent = currentNode as Agent;
-                    const { state: newState, history } = await this.runAgent(agent, i.state, i.task);
-                    i.state = newState || i.state;
-                    if (history?.length) {
-                        combinedHistory.push(...history);
-                    }
-                }
+            visitedNodes.add(currentNode);
 
-                const edgeList = this.edges.get(currentNode) || [];
-                if (edgeList.length === 0) {
-                    console.log(`No edges found for node "${String(currentNode)}". Exiting.`);
-                    break;
+            if (typeof currentNode !== "string") {
+                const agent = currentNode as Agent;
+                const { state: newState, history, output: agentOutput, usage: agentUsage } = await this.runAgent(agent, i.state, i.task, options, runHistory);
+                usage = mergeUsageReports(usage, agentUsage, agent.name);
+                i.state = newState || i.state;
+                output = agentOutput ?? output;
+                if (history?.length) {
+                    combinedHistory.push(...history);
                 }
+            }
 
-                let nextNode: TWorker | string | (TWorker | string)[] | null;
-                try {
-                    nextNode = this.pickNextNode(edgeList, i.state);
-                } catch (error) {
-                    throw new Error(`Error picking next node from "${String(currentNode)}": ${error}`);
-                }
+            const edgeList = this.edges.get(currentNode) || [];
+            if (edgeList.length === 0) {
+                console.log(`No edges found for node "${String(currentNode)}". Exiting.`);
+                break;
+            }
 
-                this.logEdgeTraversal(currentNode, nextNode);
+            let nextNode: TWorker | string | (TWorker | string)[] | null;
+            try {
+                nextNode = this.pickNextNode(edgeList, i.state);
+            } catch (error) {
+                throw new Error(`Error picking next node from "${String(currentNode)}": ${error}`);
+            }
 
-                if (!nextNode) {
-                    currentNode = "END";
-                    continue;
-                }
+            this.logEdgeTraversal(currentNode, nextNode);
 
-                this.validateNextNodePresence(nextNode);
+            if (!nextNode) {
+                currentNode = "END";
+                continue;
+            }
 
-                if (Array.isArray(nextNode)) {
-                    currentNode = await this.handleParallelEdges(nextNode, edgeList, i.state, i.task);
-                    continue;
-                }
+            this.validateNextNodePresence(nextNode);
 
-                currentNode = nextNode;
+            if (Array.isArray(nextNode)) {
+                const parallel = await this.handleParallelEdges(nextNode, edgeList, i.state, i.task, options, runHistory);
+                usage = mergeUsageReports(usage, parallel.usage);
+                currentNode = parallel.next;
+                continue;
             }
 
-            return { history: combinedHistory, state: i.state };
-        });
+            currentNode = nextNode;
+        }
+
+        return { history: combinedHistory, state: i.state, output, usage };
+    }
+
+    /**
+     * Invokes the graph and streams the progress of its agents.
+     *
+     * The returned iterator yields the events of every agent invoked while traversing the graph,
+     * and finally a "result" event with the IResult of the graph.
+     *
+     * @param {IGraphInvocation<TState>} i - The invocation object containing the state, task, and optional start node.
+     * @returns {AsyncGenerator<TStreamEvent, IResult<TState, TOutput>>} - An async iterator of the invocation's events.
+     */
+    public stream(i: IGraphInvocation<TState>): AsyncGenerator<TStreamEvent, IResult<TState, TOutput>> {
+        return streamEvents((onEvent, signal) => this.invoke({ ...i, onEvent, signal }), i.signal);
+    }
+
+    /**
+     * Returns the session with the given id. Its send method invokes the graph with the next
+     * message, every agent of the graph sees the session's history. The state is carried over between messages.
+     *
+     * @param {string} id - The id of the conversation, e.g. a chat thread.
+     * @param {ISessionOptions} [options] - The session store and the state of new sessions.
+     * @returns {Session} - The handle of the session.
+     */
+    public session(id: string, options?: ISessionOptions): Session {
+        return new Session(this, id, options);
+    }
+
+    /**
+     * Extracts the options that are forwarded to every worker of the graph.
+     */
+    private getInvocationOptions(i: IGraphInvocation<TState>): IInvocationOptions {
+        const { state, task, startNode, ...options } = i;
+        return options;
     }
 
     private validateInvocationInputs(state: any, task: string, startNode: any): void {
@@ -376,16 +469,23 @@ export class Graph {
         nextNodes: (TWorker | string)[],
         edgeList: Edge[],
         state: any,
-        task: string
-    ): Promise<TWorker | string> {
+        task: string,
+        options: IInvocationOptions,
+        runHistory: TRunHistory
+    ): Promise<{ next: TWorker | string, usage: IUsageReport }> {
+        let usage = emptyUsageReport();
         const parallelEdge = edgeList.find(e => e.type === "parallel") as ParallelEdge | undefined;
         if (!parallelEdge) {
-            return "END";
+            return { next: "END", usage };
         }
 
-        const results = await this.invokeParallelAgents(nextNodes, state, task);
+        const results = await this.invokeParallelAgents(nextNodes, state, task, options, runHistory);
 
-        results.forEach(result => {
+        results.forEach((result, index) => {
+            const target = nextNodes[index];
+            if (result && typeof target !== "string") {
+                usage = mergeUsageReports(usage, result.usage, target.name);
+            }
             if (result?.state) {
                 state = result.state; // Consider implementing a merge strategy if needed
             }
@@ -400,24 +500,29 @@ export class Graph {
             throw new Error(`Next node "${String(postNode)}" specified in parallel edge does not exist in the graph.`);
         }
 
-        return postNode;
+        return { next: postNode, usage };
     }
 
     private async invokeParallelAgents(
         targets: (TWorker | string)[],
         state: any,
-        task: string
-    ): Promise<Array<{ state: any, history: IMessage[] } | null>> {
+        task: string,
+        options: IInvocationOptions,
+        runHistory: TRunHistory
+    ): Promise<Array<IResult | null>> {
         return Promise.all(
             targets.map(async (target) => {
                 if (typeof target !== "string") {
                     const agent = target as Agent;
-                    return await this.runAgent(agent, state, task);
+                    return await this.runAgent(agent, state, task, options, runHistory);
                 }
                 // Handle string nodes if necessary
                 return null;
             })
         ).catch(error => {
+            if (error instanceof CancellationError || options.signal?.aborted) {
+                throw error;
+            }
             throw new Error(`Parallel edge invocation failed: ${error}`);
         });
     }
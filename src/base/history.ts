@@ -0,0 +1,137 @@
+import { createHash } from "crypto";
+import { Agent } from "./agent";
+import { State } from "./state";
+import { toTextContent } from "../helper/content";
+import { estimateTokens } from "../helper/usage";
+import { EOutput, IHistoryContext, IMessage, ISummarizeOptions, THistoryStrategy } from "../types";
+
+// tokens added by the chat format to every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// the summaries kept per strategy, the oldest are dropped beyond
+const MAX_SUMMARIES = 100;
+
+const SUMMARY_PROMPT = `Summarize the following conversation of an AI agent. Keep every fact, decision, tool result and open question which the agent needs to continue its task. Be concise.`;
+
+/**
+ * Estimates the number of tokens of messages, at about four characters per token.
+ *
+ * @param {IMessage[]} messages - The messages.
+ * @returns {number} - The estimated number of tokens.
+ */
+export const countTokens = (messages: IMessage[]): number => {
+    return messages.reduce((sum, message) => {
+        const toolCalls = message.tool_calls ? JSON.stringify(message.tool_calls) : "";
+        return sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(toTextContent(message.content) + toolCalls);
+    }, 0);
+}
+
+/**
+ * Drops the tool results at the start of a window, their tool calls were cut off.
+ */
+const dropOrphanedToolResults = (messages: IMessage[]): IMessage[] => {
+    const start = messages.findIndex((message) => message.role !== "tool");
+    return start === -1 ? [] : messages.slice(start);
+}
+
+/**
+ * Keeps the first message, which holds the agent's task, and the newest messages that fit into the token budget.
+ *
+ * @param {{ maxTokens?: number }} [options] - A token budget below the model's context window.
+ * @returns {THistoryStrategy} - The history strategy.
+ */
+export const slidingWindow = (options: { maxTokens?: number } = {}): THistoryStrategy => {
+    return (history: IMessage[], context: IHistoryContext): IMessage[] => {
+        const maxTokens = Math.min(options.maxTokens ?? Infinity, context.maxTokens);
+        if (history.length === 0 || countTokens(history) <= maxTokens) {
+            return history;
+        }
+
+        const [first, ...rest] = history;
+        let budget = maxTokens - countTokens([first]);
+        let start = rest.length;
+        while (start > 0 && countTokens([rest[start - 1]]) <= budget) {
+            budget -= countTokens([rest[start - 1]]);
+            start--;
+        }
+
+        return [first, ...dropOrphanedToolResults(rest.slice(start))];
+    };
+}
+
+/**
+ * Keeps the first message, which holds the agent's task, the system messages like evaluation results
+ * and the last n other messages.
+ *
+ * @param {number} n - The number of messages to keep.
+ * @returns {THistoryStrategy} - The history strategy.
+ */
+export const keepLastN = (n: number): THistoryStrategy => {
+    return (history: IMessage[]): IMessage[] => {
+        const [first, ...rest] = history;
+        if (!first) return history;
+
+        const others = rest.filter((message) => message.role !== "system");
+        const kept = new Set(dropOrphanedToolResults(n > 0 ? others.slice(-n) : []));
+
+        return [first, ...rest.filter((message) => message.role === "system" || kept.has(message))];
+    };
+}
+
+/**
+ * Replaces the older messages by a summary, written by a model, once the history exceeds the token budget.
+ * The first message, which holds the agent's task, and the last messages are kept as they are.
+ * Summaries are cached, so retries do not summarize the same messages again. The summarizer runs with the
+ * provider configuration, signal and cache setting of the agent's invocation, its usage counts to the agent's.
+ *
+ * @param {ISummarizeOptions} options - The summarizing model and the messages to keep.
+ * @returns {THistoryStrategy} - The history strategy.
+ */
+export const summarize = (options: ISummarizeOptions): THistoryStrategy => {
+    const keepLast = options.keepLast ?? 4;
+    const summaries = new Map<string, string>();
+
+    return async (history: IMessage[], context: IHistoryContext): Promise<IMessage[]> => {
+        const maxTokens = Math.min(options.maxTokens ?? Infinity, context.maxTokens);
+        if (history.length <= keepLast + 1 || countTokens(history) <= maxTokens) {
+            return history;
+        }
+
+        const [first, ...rest] = history;
+        const recent = dropOrphanedToolResults(rest.slice(-keepLast));
+        const older = rest.slice(0, rest.length - recent.length);
+
+        const transcript = older.map((message) => `[${message.role} ${message.name}]: ${toTextContent(message.content)}`).join("\n");
+        const key = createHash("sha256").update(transcript).digest("hex");
+
+        if (!summaries.has(key)) {
+            const summarizer = new Agent({
+                name: `${context.agent}_summarizer`,
+                description: `Summarizes the history of agent "${context.agent}".`,
+                task: SUMMARY_PROMPT,
+                retries: 1,
+                model: options.model,
+                outputType: EOutput.TEXT,
+                lifecycle: { afterRun: { stateManipulations: [] } }
+            });
+            const result = await summarizer.invoke({
+                state: new State({}),
+                task: transcript,
+                providerConfig: context.providerConfig,
+                signal: context.signal,
+                cache: context.cache
+            });
+            context.onUsage?.(result.usage!);
+
+            summaries.set(key, result.output.message);
+            if (summaries.size > MAX_SUMMARIES) {
+                summaries.delete(summaries.keys().next().value!);
+            }
+        }
+
+        return [
+            first,
+            { name: "summarizer", role: "system", content: `Summary of the earlier conversation: ${summaries.get(key)}` },
+            ...recent
+        ];
+    };
+}
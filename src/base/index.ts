@@ -1,4 +1,10 @@
 export { createTool } from "./tools";
-export { Agent } from "./agent";
+export { readContentPart } from "../helper/content";
+export { CancellationError } from "../helper/cancellation";
+export { template, compileTemplate } from "../helper/template";
+export { Agent, defineAgent } from "./agent";
+export { slidingWindow, keepLastN, summarize, countTokens } from "./history";
+export { TranscriptionAgent } from "./transcription";
 export { State } from "./state";
+export { Session, memorySessionStore, fileSessionStore, localSessionStore, configureSessions } from "./session";
 export { Graph } from "./graph"; // or wherever your Graph is
@@ -0,0 +1,178 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Mutex } from "async-mutex";
+import { State } from "./state";
+import { IInvocationOptions, IResult, ISessionOptions, ISessionRecord, ISessionStore, ISessionWorker } from "../types";
+
+/**
+ * Keeps sessions in memory, for the lifetime of the process.
+ */
+export const memorySessionStore = (): ISessionStore => {
+    const records = new Map<string, ISessionRecord>();
+
+    return {
+        load: async (key) => records.get(key),
+        save: async (record) => { records.set(record.key, record); },
+        delete: async (key) => { records.delete(key); }
+    };
+}
+
+/**
+ * Keeps every session in its own JSON file, so sessions can be resumed after a restart.
+ *
+ * @param {string} directory - The directory of the session files.
+ */
+export const fileSessionStore = (directory: string): ISessionStore => {
+    const file = (key: string) => path.join(directory, `${encodeURIComponent(key)}.json`);
+
+    return {
+        load: async (key) => {
+            try {
+                return JSON.parse(await fs.readFile(file(key), "utf-8")) as ISessionRecord;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+                throw new Error(`Failed to read session "${file(key)}": ${error}`);
+            }
+        },
+        save: async (record) => {
+            await fs.mkdir(directory, { recursive: true });
+            await fs.writeFile(file(record.key), JSON.stringify(record, null, 2));
+        },
+        delete: async (key) => {
+            await fs.rm(file(key), { force: true });
+        }
+    };
+}
+
+/**
+ * Keeps all sessions in a single local database file, like an embedded SQLite database.
+ * Writes are serialized and atomic: the file is written to a temporary file which replaces the database.
+ *
+ * @param {string} filePath - The path of the database file.
+ */
+export const localSessionStore = (filePath: string): ISessionStore => {
+    const mutex = new Mutex();
+
+    const read = async (): Promise<Record<string, ISessionRecord>> => {
+        try {
+            return JSON.parse(await fs.readFile(filePath, "utf-8")).sessions;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+            throw new Error(`Failed to read session store "${filePath}": ${error}`);
+        }
+    };
+
+    const update = (change: (sessions: Record<string, ISessionRecord>) => void) => mutex.runExclusive(async () => {
+        const sessions = await read();
+        change(sessions);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(`${filePath}.tmp`, JSON.stringify({ version: 1, sessions }));
+        await fs.rename(`${filePath}.tmp`, filePath);
+    });
+
+    return {
+        load: async (key) => (await mutex.runExclusive(read))[key],
+        save: (record) => update((sessions) => { sessions[record.key] = record; }),
+        delete: (key) => update((sessions) => { delete sessions[key]; })
+    };
+}
+
+let defaultStore: ISessionStore = memorySessionStore();
+
+/**
+ * Sets the store of sessions which are created without one, e.g. fileSessionStore("./sessions").
+ *
+ * @param {{ store: ISessionStore }} options - The default session store.
+ */
+export const configureSessions = (options: { store: ISessionStore }): void => {
+    defaultStore = options.store;
+}
+
+// the locks of sessions with pending messages, shared by every handle of a session
+const locks = new Map<string, { mutex: Mutex, pending: number }>();
+
+/**
+ * Runs fn while holding the lock of the session key, so messages sent through different handles of
+ * the same session are not lost. The lock is dropped once nothing waits for it.
+ */
+const runExclusive = async <T>(key: string, fn: () => Promise<T>): Promise<T> => {
+    const lock = locks.get(key) ?? { mutex: new Mutex(), pending: 0 };
+    locks.set(key, lock);
+    lock.pending++;
+    try {
+        return await lock.mutex.runExclusive(fn);
+    } finally {
+        if (--lock.pending === 0) {
+            locks.delete(key);
+        }
+    }
+}
+
+export class Session {
+    id: string;
+    key: string;
+    private worker: ISessionWorker;
+    private store: ISessionStore;
+    private initialState: Record<string, any>;
+
+    /**
+     * Creates a handle of a conversation with an agent, team or graph. Use the session method of the
+     * worker instead of this constructor. The history and the state of the conversation are kept in
+     * the session store under the worker's name and the session id.
+     *
+     * @param {ISessionWorker} worker - The agent, team, pipe, vote or graph of the conversation.
+     * @param {string} id - The id of the conversation, e.g. a chat thread.
+     * @param {ISessionOptions} [options] - The session store and the state of new sessions.
+     */
+    constructor(worker: ISessionWorker, id: string, options: ISessionOptions = {}) {
+        if (!id) {
+            throw new Error(`Session of "${worker.name}" must have an id.`);
+        }
+        this.worker = worker;
+        this.id = id;
+        this.key = `${worker.name}:${id}`;
+        this.store = options.store ?? defaultStore;
+        this.initialState = options.state ?? {};
+    }
+
+    /**
+     * Sends a message to the worker, which sees the history of the conversation. Its answer and the
+     * updated state are saved before the result is returned.
+     *
+     * @param {string} message - The message of the user, the task of the invocation.
+     * @param {IInvocationOptions} [options] - Options of this invocation, e.g. a signal or attachments.
+     * @returns {Promise<IResult>} - The result of this message's invocation.
+     */
+    async send(message: string, options: IInvocationOptions = {}): Promise<IResult> {
+        // the messages of a session are sent one at a time
+        return runExclusive(this.key, async () => {
+            const record = await this.load();
+            const state = new State({ ...record.state });
+
+            const result = await this.worker.invoke({ ...options, state, task: message, history: record.history });
+
+            await this.store.save({
+                key: this.key,
+                history: [...record.history, ...result.history],
+                state: result.state instanceof State ? result.state.getState() : result.state,
+                updatedAt: Date.now()
+            });
+
+            return result;
+        });
+    }
+
+    /**
+     * Returns the record of the session, or a new one if nothing was sent yet.
+     */
+    async load(): Promise<ISessionRecord> {
+        return (await this.store.load(this.key)) ?? { key: this.key, history: [], state: this.initialState, updatedAt: Date.now() };
+    }
+
+    /**
+     * Deletes the history and state of the session.
+     */
+    async clear(): Promise<void> {
+        await runExclusive(this.key, () => this.store.delete(this.key));
+    }
+}
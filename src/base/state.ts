@@ -1,6 +1,7 @@
 import _ from "lodash";
+import { TPath } from "../types";
 
-export class State<T extends Record<string, any>> {
+export class State<T extends Record<string, any> = any> {
     private state: T;
 
     /**
@@ -17,8 +18,9 @@ export class State<T extends Record<string, any>> {
     }
     /** 
      * NEW: Update a nested field given a dot path, e.g. "weather.humidity"
+     * The path is checked against the state type.
      */
-    updateNestedKey(path: string, value: unknown): void {
+    updateNestedKey(path: TPath<T>, value: unknown): void {
         // Use Lodash _.set to update nested keys safely
         this.state = _.set({ ...this.state }, path, value);
     }
@@ -1,6 +1,17 @@
 import { z, ZodSchema } from "zod"
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import { ICustomToolConfig, IFuncionDefinition, ITool } from "../types";
+import { Mutex } from "async-mutex";
+import { Logger } from "../helper/logger";
+import { extractJson } from "../helper/json";
+import { abortable, CancellationError } from "../helper/cancellation";
+import { ICompletionConfig, ICustomToolConfig, IFuncionDefinition, IMessage, ITool, IToolCall, IToolTurn } from "../types";
+
+const logger = new Logger();
+
+const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+
+// serial tools never run concurrently with themselves, across all agents
+const serialLocks = new WeakMap<object, Mutex>();
 
 const createFunctionDefinition = (name: string, description: string, schema: ZodSchema): IFuncionDefinition => {
     return {
@@ -16,19 +27,176 @@ const createFunctionDefinition = (name: string, description: string, schema: Zod
 
 /**
  * Creates a new tool based on the provided configuration.
+ * The arguments chosen by the model are validated against the schema before the function runs,
+ * so the function receives a typed object.
  * 
  * @param {ICustomToolConfig} i - The configuration object for the tool.
  * @param {string} i.name - The name of the tool.
  * @param {string} i.description - The description of the tool.
  * @param {ZodSchema} i.schema - The schema for the tool's parameters.
- * @param {(...args: any) => any} i.fn - The function to be executed by the tool.
+ * @param {(args: z.infer<T>, context: IToolContext) => any} i.fn - The function to be executed by the tool. The context holds the signal of the invocation.
+ * @param {boolean} [i.concurrent] - Whether calls may run concurrently. Set to false for non-reentrant tools. Defaults to true.
  * @returns {ITool} - The created tool object.
  */
-export const createTool = (i: ICustomToolConfig): ITool => {
-    return {
+export const createTool = <T extends ZodSchema>(i: ICustomToolConfig<T>): ITool<T> => {
+    const tool: ITool<T> = {
         name: i.name,
         functionDefinition: createFunctionDefinition(i.name, i.description, i.schema),
-        fn: i.fn
+        schema: i.schema,
+        fn: i.fn,
+        concurrent: i.concurrent ?? true
+    }
+
+    if (!tool.concurrent) {
+        serialLocks.set(tool, new Mutex());
+    }
+
+    return tool
+}
+
+/**
+ * Runs a tool and reports the call to the event listener of the completion.
+ */
+const invokeTool = async (completionConfig: ICompletionConfig, tool: ITool, args: any): Promise<any> => {
+    const call = async () => {
+        logger.tool(tool.name);
+        completionConfig.onEvent?.({ type: "tool_call_start", agent: completionConfig.name, tool: tool.name, arguments: args });
+        const { signal } = completionConfig;
+        const result = await abortable(Promise.resolve(tool.fn(args, { agent: completionConfig.name, signal })), signal);
+        completionConfig.onEvent?.({ type: "tool_call_end", agent: completionConfig.name, tool: tool.name, result });
+        return result;
+    };
+
+    const lock = serialLocks.get(tool);
+    return lock ? lock.runExclusive(call) : call();
+}
+
+/**
+ * Runs a tool call chosen by the model.
+ * Unknown tools and arguments that do not match the tool's schema are not executed. Instead an error
+ * is returned as the tool result, so the model can correct its call. Errors thrown by the tool are
+ * returned the same way, only cancellations end the invocation.
+ *
+ * @param {ICompletionConfig} completionConfig - The completion config of the calling agent.
+ * @param {IToolCall} toolCall - The tool call chosen by the model.
+ * @returns {Promise<any>} - The result of the tool, or an object with an error.
+ */
+export const runToolCall = async (completionConfig: ICompletionConfig, toolCall: IToolCall): Promise<any> => {
+    const name = toolCall.function.name;
+    const tool: ITool | undefined = completionConfig.tools?.find(tool => tool.name === name);
+    if (!tool) {
+        const available = completionConfig.tools?.map(tool => tool.name).join(", ");
+        return { error: `Unknown tool "${name}". Available tools: ${available}.` };
+    }
+
+    let args: unknown;
+    try {
+        args = JSON.parse(toolCall.function.arguments || "{}");
+    } catch (error) {
+        return { error: `Invalid JSON arguments for tool "${name}": ${error}` };
+    }
+
+    const parsed = tool.schema.safeParse(args);
+    if (!parsed.success) {
+        console.warn(`Agent "${completionConfig.name}" called tool "${name}" with invalid arguments:`, parsed.error.message);
+        return { error: `Invalid arguments for tool "${name}": ${parsed.error.message}` };
+    }
+
+    try {
+        return await invokeTool(completionConfig, tool, parsed.data);
+    } catch (error) {
+        if (completionConfig.signal?.aborted || error instanceof CancellationError) {
+            throw error;
+        }
+        console.warn(`Tool "${name}" of agent "${completionConfig.name}" failed:`, error);
+        return { error: `Tool "${name}" failed: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+/**
+ * Runs all tool calls of a single model turn. Concurrent tools run in parallel, serial tools one at a time.
+ *
+ * @param {ICompletionConfig} completionConfig - The completion config of the calling agent.
+ * @param {IToolCall[]} toolCalls - The tool calls of the model turn.
+ * @returns {Promise<any[]>} - The results in the order of the tool calls.
+ */
+export const runToolCalls = async (completionConfig: ICompletionConfig, toolCalls: IToolCall[]): Promise<any[]> => {
+    return Promise.all(toolCalls.map((toolCall) => runToolCall(completionConfig, toolCall)));
+}
+
+/**
+ * Validates the final answer of a tool calling loop against the output schema of the agent.
+ * Agents without an output schema receive the answer as a message, like TEXT agents.
+ */
+const parseFinalAnswer = (completionConfig: ICompletionConfig, content: string | null): { success: true, data: any } | { success: false, reason: string } => {
+    if (!completionConfig.outputSchema) {
+        return { success: true, data: { message: content ?? "" } };
+    }
+
+    try {
+        const parsed = completionConfig.outputSchema.safeParse(extractJson(content ?? ""));
+        return parsed.success
+            ? { success: true, data: parsed.data }
+            : { success: false, reason: parsed.error.message };
+    } catch (error) {
+        return { success: false, reason: `Invalid JSON: ${error}` };
+    }
+}
+
+/**
+ * Runs the tool calling loop of a TOOL_CALL agent.
+ *
+ * The model is queried until it answers without tool calls. Every tool call is executed and its result
+ * is sent back to the model as a "tool" message. After maxToolIterations rounds of tool calls the model
+ * has to answer. The final answer is validated against the output schema; validation errors are sent
+ * back to the model as long as rounds are left.
+ *
+ * @param {ICompletionConfig} completionConfig - The completion config of the calling agent.
+ * @param {(history: IMessage[], final: boolean) => Promise<IToolTurn>} requestTurn - Queries the model once. If final is true, the model must not call tools.
+ * @returns {Promise<IMessage>} - The validated final answer.
+ */
+export const runToolLoop = async (
+    completionConfig: ICompletionConfig,
+    requestTurn: (history: IMessage[], final: boolean) => Promise<IToolTurn>
+): Promise<IMessage> => {
+    const maxToolIterations = completionConfig.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+    const history = [...completionConfig.history];
+    const record = (message: IMessage) => {
+        history.push(message);
+        completionConfig.onMessage?.(message);
+    };
+
+    for (let iteration = 0; ; iteration++) {
+        completionConfig.signal?.throwIfAborted();
+        const final = iteration >= maxToolIterations;
+        const turn = await requestTurn(history, final);
+
+        if (turn.toolCalls.length > 0 && !final) {
+            record({ name: completionConfig.name, role: "assistant", content: turn.content ?? "", tool_calls: turn.toolCalls, usage: turn.usage });
+
+            const results = await runToolCalls(completionConfig, turn.toolCalls);
+            turn.toolCalls.forEach((toolCall, index) => {
+                record({ name: toolCall.function.name, role: "tool", tool_call_id: toolCall.id, content: JSON.stringify(results[index]) });
+            });
+            continue;
+        }
+
+        const answer = parseFinalAnswer(completionConfig, turn.content);
+        if (answer.success) {
+            return {
+                name: completionConfig.name,
+                role: "assistant",
+                content: JSON.stringify(answer.data),
+                usage: turn.usage
+            };
+        }
+
+        if (final) {
+            throw new Error(`Agent "${completionConfig.name}" did not produce a valid final answer after ${maxToolIterations} tool iterations: ${answer.reason}`);
+        }
+
+        record({ name: completionConfig.name, role: "assistant", content: turn.content ?? "", usage: turn.usage });
+        record({ name: "validator", role: "user", content: `Your answer does not match the required output schema: ${answer.reason} Please answer again.` });
     }
 }
 
@@ -0,0 +1,134 @@
+import { validateTranscriptionCapabilities } from "../provider/capabilities";
+import { getProviderConfig } from "../provider/config";
+import { getProvider, splitProviderModel } from "../provider/registry";
+import { Logger } from "../helper/logger";
+import { streamEvents } from "../helper/stream";
+import { abortable, CancellationError, describeAbort } from "../helper/cancellation";
+import { emptyUsageReport } from "../helper/usage";
+import { IInvocation, ILifecycle, IMessage, IResult, IRetryPolicy, ITranscription, ITranscriptionAgent, TModels, TProviderConfigs, TStreamEvent } from "../types";
+
+export class TranscriptionAgent {
+    _type = "transcription_agent"
+
+    lifecycle: ILifecycle;
+    name: string;
+    description: string;
+    model: TModels;
+    language?: string;
+    prompt?: string;
+    retryPolicy?: Partial<IRetryPolicy>;
+    providerConfig?: TProviderConfigs;
+    logger: Logger
+
+    /**
+     * Creates an agent which transcribes the audio of an invocation with a speech-to-text model.
+     * The result content is the JSON of an ITranscription, so the transcript, its segments and
+     * the language are written into the state with the usual afterRun state manipulations.
+     *
+     * @param {ITranscriptionAgent} agentConfig - The configuration object for the agent.
+     * @param {string} agentConfig.name - The name of the agent.
+     * @param {string} agentConfig.description - The description of the agent.
+     * @param {TModels} agentConfig.model - The speech-to-text model, e.g. EModels.whisper_large_v3.
+     * @param {string} [agentConfig.language] - The ISO-639-1 language of the audio, detected if omitted.
+     * @param {string} [agentConfig.prompt] - Guides the spelling and style of the transcript.
+     * @param {Partial<IRetryPolicy>} [agentConfig.retryPolicy] - Overrides the provider's retry policy for failed requests.
+     * @param {TProviderConfigs} [agentConfig.providerConfig] - The provider configurations of the agent, e.g. its API keys.
+     * @param {ILifecycle} agentConfig.lifecycle - The lifecycle of the agent.
+     */
+    constructor(agentConfig: ITranscriptionAgent) {
+        this.lifecycle = agentConfig.lifecycle;
+        this.name = agentConfig.name;
+        this.description = agentConfig.description;
+        this.model = agentConfig.model;
+        this.language = agentConfig.language;
+        this.prompt = agentConfig.prompt;
+        this.retryPolicy = agentConfig.retryPolicy;
+        this.providerConfig = agentConfig.providerConfig;
+        this.logger = new Logger()
+
+        validateTranscriptionCapabilities(this);
+    }
+
+    /**
+     * Transcribes the audio of the invocation and applies the afterRun state manipulations.
+     *
+     * @param {IInvocation} i - The invocation object containing the state, task and audio.
+     * @returns {Promise<IResult>} A promise that resolves to the transcript message and the updated state.
+     * @throws {CancellationError} - If the invocation's signal aborts.
+     */
+    async invoke(i: IInvocation): Promise<IResult> {
+        try {
+            if (!i.audio) {
+                throw new Error(`TranscriptionAgent "${this.name}" requires an audio input in the invocation.`);
+            }
+
+            const transcription = await abortable(this.transcribe(i), i.signal);
+            const result: IMessage = {
+                name: this.name,
+                role: "assistant",
+                content: JSON.stringify(transcription),
+                model: this.model
+            };
+
+            i.onEvent?.({ type: "token", agent: this.name, delta: transcription.text });
+            this.logger.result(this.name, { final: true, result });
+
+            this.handleStateManipulations(result, i.state);
+
+            return {
+                history: [result],
+                state: i.state,
+                usage: emptyUsageReport()
+            };
+        } catch (error) {
+            if (i.signal?.aborted) {
+                throw new CancellationError(`Agent "${this.name}" was cancelled: ${describeAbort(i.signal)}`, [], i.state);
+            }
+            console.error("Error invoking transcription:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Invokes the agent and streams the transcript as a single token event, followed by the "result" event.
+     *
+     * @param {IInvocation} i - The invocation object containing the state, task and audio.
+     * @returns {AsyncGenerator<TStreamEvent, IResult>} An async iterator of the invocation's events.
+     */
+    stream(i: IInvocation): AsyncGenerator<TStreamEvent, IResult> {
+        return streamEvents((onEvent, signal) => this.invoke({ ...i, onEvent, signal }), i.signal);
+    }
+
+    private async transcribe(i: IInvocation): Promise<ITranscription> {
+        const { provider, model } = splitProviderModel(this.model);
+
+        const registeredProvider = getProvider(provider);
+        if (!registeredProvider?.transcription) {
+            throw new Error(`Provider "${provider}" does not support transcriptions.`);
+        }
+
+        return registeredProvider.transcription({
+            name: this.name,
+            model,
+            audio: i.audio!,
+            language: this.language,
+            prompt: this.prompt,
+            retryPolicy: { ...registeredProvider.retryPolicy, ...this.retryPolicy },
+            providerConfig: { ...getProviderConfig(provider), ...this.providerConfig?.[provider], ...i.providerConfig?.[provider] },
+            signal: i.signal
+        });
+    }
+
+    private handleStateManipulations(result: IMessage, state: any): void {
+        const manipulations = this.lifecycle.afterRun?.stateManipulations;
+        if (manipulations) {
+            manipulations.forEach((func) => {
+                try {
+                    func.run(result, state);
+                } catch (error) {
+                    throw new Error(`State manipulation failed during "afterRun": ${error}`);
+                }
+            });
+        }
+    }
+}
@@ -0,0 +1,46 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { IAudioInput, ITranscription } from "../types";
+
+// the verbose_json response of the OpenAI and Groq transcription APIs
+export interface IVerboseTranscription {
+    text: string,
+    language?: string,
+    segments?: Array<{ start: number, end: number, text: string }>
+}
+
+/**
+ * Returns the file name of an audio input. Its extension tells the API the audio format.
+ */
+export const getAudioName = (audio: IAudioInput): string => {
+    if (audio.path) {
+        return path.basename(audio.path);
+    }
+    if (audio.data && audio.name) {
+        return audio.name;
+    }
+    throw new Error(`Invalid audio input. Expected a path, or data with a file name like "voice-note.m4a".`);
+}
+
+/**
+ * Reads an audio input for upload, wrapped into the file type of the provider's SDK.
+ *
+ * @param {IAudioInput} audio - The audio input.
+ * @param {(data: Buffer, name: string) => Promise<T>} toFile - Wraps a buffer into the SDK's file type.
+ * @returns {Promise<T>} - The uploadable audio.
+ */
+export const readAudio = async <T>(audio: IAudioInput, toFile: (data: Buffer, name: string) => Promise<T>): Promise<T> => {
+    const name = getAudioName(audio);
+    return toFile(audio.path ? await fs.readFile(audio.path) : audio.data!, name);
+}
+
+/**
+ * Converts a verbose transcription response. The detected language is reported by name, e.g. "english".
+ */
+export const toTranscription = (response: IVerboseTranscription): ITranscription => {
+    return {
+        text: response.text.trim(),
+        segments: (response.segments ?? []).map(({ start, end, text }) => ({ start, end, text: text.trim() })),
+        language: response.language
+    };
+}
@@ -0,0 +1,64 @@
+import { IMessage } from "../types";
+
+/**
+ * Rejects a cancelled or timed out invocation. Carries the messages and the state produced until the cancellation,
+ * so callers can inspect or resume the partial run.
+ */
+export class CancellationError extends Error {
+    name = "CancellationError";
+    history: IMessage[];
+    state: any;
+
+    constructor(message: string, history: IMessage[], state: any) {
+        super(message);
+        this.history = history;
+        this.state = state;
+    }
+}
+
+/**
+ * Combines the signal of an invocation with a timeout. Returns undefined if there is neither.
+ *
+ * @param {AbortSignal} [signal] - The signal of the invocation.
+ * @param {number} [timeoutMs] - The timeout of the agent or graph.
+ * @returns {AbortSignal | undefined} - A signal which aborts with the invocation or after the timeout.
+ */
+export const withTimeout = (signal?: AbortSignal, timeoutMs?: number): AbortSignal | undefined => {
+    if (timeoutMs === undefined) return signal;
+
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Describes why a signal aborted, e.g. "Timed out after 5000ms" for timeouts.
+ */
+export const describeAbort = (signal: AbortSignal, timeoutMs?: number): string => {
+    if (signal.reason?.name === "TimeoutError") {
+        return timeoutMs !== undefined ? `Timed out after ${timeoutMs}ms.` : "Timed out.";
+    }
+    return signal.reason instanceof Error ? signal.reason.message : String(signal.reason ?? "Aborted.");
+}
+
+/**
+ * Rejects as soon as the signal aborts, for work which does not observe the signal itself,
+ * e.g. tool functions or custom providers. The work itself keeps running in the background.
+ *
+ * @param {Promise<T>} promise - The work.
+ * @param {AbortSignal} [signal] - The signal of the invocation.
+ * @returns {Promise<T>} - The result of the work, unless the signal aborts first.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) {
+        // the work may still fail, which is of no interest anymore
+        promise.catch(() => { });
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+}
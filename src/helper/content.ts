@@ -0,0 +1,68 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { IFilePart, IImagePart, TContentPart } from "../types";
+
+const MIME_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".pdf": "application/pdf",
+    ".txt": "text/plain",
+};
+
+/**
+ * Reads a local image or document into a content part, e.g. to attach a scanned invoice to an invocation.
+ * Images become image parts, everything else becomes a file part.
+ *
+ * @param {string} filePath - The path of the file.
+ * @param {string} [mimeType] - The MIME type, inferred from the file extension if omitted.
+ * @returns {Promise<IImagePart | IFilePart>} - The content part with the base64 encoded file.
+ */
+export const readContentPart = async (filePath: string, mimeType?: string): Promise<IImagePart | IFilePart> => {
+    const type = mimeType ?? MIME_TYPES[path.extname(filePath).toLowerCase()];
+    if (!type) {
+        throw new Error(`Unknown MIME type of file "${filePath}". Please pass it explicitly.`);
+    }
+
+    const data = (await fs.readFile(filePath)).toString("base64");
+    return type.startsWith("image/")
+        ? { type: "image", data, mimeType: type }
+        : { type: "file", data, mimeType: type, name: path.basename(filePath) };
+}
+
+/**
+ * Returns the text of a message content: strings as they are, the text parts of content parts
+ * joined by newlines and anything else as JSON.
+ */
+export const toTextContent = (content: any): string => {
+    if (typeof content === "string") return content;
+    if (isContentParts(content)) {
+        return content.filter((part) => part.type === "text").map((part) => part.text).join("\n");
+    }
+    return JSON.stringify(content);
+}
+
+export const isContentParts = (content: any): content is TContentPart[] => {
+    return Array.isArray(content) && content.every((part) => typeof part?.type === "string");
+}
+
+/**
+ * Splits a base64 data URL into its MIME type and data.
+ */
+export const parseDataUrl = (url: string): { mimeType: string, data: string } | undefined => {
+    const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+    return match ? { mimeType: match[1], data: match[2] } : undefined;
+}
+
+/**
+ * Returns the URL of an image part, encoding base64 data as a data URL.
+ */
+export const toDataUrl = (part: IImagePart | IFilePart): string => {
+    if (part.type === "image" && part.url) return part.url;
+    if (!part.data || !part.mimeType) {
+        throw new Error(`Content part of type "${part.type}" requires a url or data with a mimeType.`);
+    }
+    return `data:${part.mimeType};base64,${part.data}`;
+}
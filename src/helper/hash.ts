@@ -0,0 +1,51 @@
+import { createHash } from "crypto";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ICompletionConfig } from "../types";
+
+/**
+ * Serializes a value to JSON with sorted object keys, so equal values always produce the same string.
+ */
+export const stableStringify = (value: unknown): string => {
+    return JSON.stringify(value, (_key, val) => {
+        if (val && typeof val === "object" && !Array.isArray(val)) {
+            return Object.keys(val).sort().reduce((sorted: Record<string, unknown>, key) => {
+                sorted[key] = val[key];
+                return sorted;
+            }, {});
+        }
+        return val;
+    });
+}
+
+/**
+ * Describes everything of a completion request that influences the model's answer, including the
+ * endpoint and account it is sent to. API keys are left out.
+ */
+export const describeCompletionRequest = (provider: string, completionConfig: ICompletionConfig) => {
+    const { baseURL, organization, project } = completionConfig.providerConfig ?? {};
+
+    return {
+        provider,
+        // left out for the default endpoint, so those requests keep their keys
+        endpoint: baseURL || organization || project ? { baseURL, organization, project } : undefined,
+        model: completionConfig.model,
+        outputType: completionConfig.outputType,
+        messages: [
+            { role: "system", content: completionConfig.task },
+            ...completionConfig.history.map(({ role, name, content, tool_calls, tool_call_id }) => ({ role, name, content, tool_calls, tool_call_id }))
+        ],
+        schema: completionConfig.outputSchema ? zodToJsonSchema(completionConfig.outputSchema) : null,
+        tools: completionConfig.tools?.map((tool) => tool.functionDefinition) ?? null,
+        // left out if empty, so requests without parameters keep their keys
+        modelParams: Object.keys(completionConfig.modelParams ?? {}).length > 0 ? completionConfig.modelParams : undefined,
+    };
+}
+
+/**
+ * Hashes a completion request, e.g. to look up recorded or cached responses.
+ */
+export const hashCompletionRequest = (provider: string, completionConfig: ICompletionConfig): string => {
+    return createHash("sha256")
+        .update(stableStringify(describeCompletionRequest(provider, completionConfig)))
+        .digest("hex");
+}
@@ -0,0 +1,67 @@
+import { ZodSchema } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ICompletionConfig, IMessage, IUsage } from "../types";
+
+// correction rounds of JSON answers which do not match the output schema
+export const DEFAULT_VALIDATION_RETRIES = 2;
+
+/**
+ * Extracts a JSON value from a model answer, tolerating markdown code fences and surrounding prose.
+ */
+export const extractJson = (text: string): unknown => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : text;
+    const start = candidate.indexOf("{");
+    const end = candidate.lastIndexOf("}");
+    return JSON.parse(start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate);
+}
+
+/**
+ * Asks for JSON matching the schema in the prompt and validates the answer against it, for endpoints
+ * without structured outputs. Validation errors are sent back to the model for a limited number of
+ * correction rounds, both are recorded in the history like the rounds of the tool calling loop.
+ *
+ * @param {ICompletionConfig} completionConfig - The completion config of the agent.
+ * @param {ZodSchema} schema - The schema of the answer.
+ * @param {(system: string, history: IMessage[]) => Promise<{ content: string, usage?: IUsage }>} complete - Requests an answer of the model.
+ * @param {number} [retries] - The correction rounds, defaults to DEFAULT_VALIDATION_RETRIES.
+ * @returns {Promise<IMessage>} - The answer, parsed by the schema.
+ */
+export const promptAndValidate = async (
+    completionConfig: ICompletionConfig,
+    schema: ZodSchema,
+    complete: (system: string, history: IMessage[]) => Promise<{ content: string, usage?: IUsage }>,
+    retries: number = DEFAULT_VALIDATION_RETRIES
+): Promise<IMessage> => {
+    const system = `${completionConfig.task} You have to respond only with JSON matching the following JSON Schema: ${JSON.stringify(zodToJsonSchema(schema))}`;
+    const history = [...completionConfig.history];
+    const record = (message: IMessage) => {
+        history.push(message);
+        completionConfig.onMessage?.(message);
+    };
+
+    let reason = "";
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        const result = await complete(system, history);
+
+        try {
+            const parsed = schema.safeParse(extractJson(result.content));
+            if (parsed.success) {
+                return {
+                    name: completionConfig.name,
+                    role: "assistant",
+                    content: JSON.stringify(parsed.data),
+                    usage: result.usage
+                };
+            }
+            reason = parsed.error.message;
+        } catch (error) {
+            reason = `Invalid JSON: ${error}`;
+        }
+
+        record({ name: completionConfig.name, role: "assistant", content: result.content, usage: result.usage });
+        record({ name: "validator", role: "user", content: `Your answer does not match the required JSON Schema: ${reason} Respond again with valid JSON only.` });
+    }
+
+    throw new Error(`Model "${completionConfig.model}" did not produce valid JSON for agent "${completionConfig.name}" after ${retries + 1} attempts: ${reason}`);
+}
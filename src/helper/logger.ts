@@ -1,6 +1,15 @@
 import { bgBlack, bgBlue } from "colorette"
 import { IActionResult, ICompletionResult, TWorker } from "../types";
 
+// shows JSON contents as objects and anything else as it is
+const parseContent = (content: any) => {
+    try {
+        return typeof content === "string" ? JSON.parse(content) : content;
+    } catch {
+        return content;
+    }
+}
+
 export class Logger {
     result = (name: string, result: ICompletionResult) => {
         console.log(bgBlack(`🤖 AGENT [${name}]: `))
@@ -8,7 +17,7 @@ export class Logger {
             ...result,
             result: {
                 ...result.result,
-                content: JSON.parse(result.result.content)
+                content: parseContent(result.result?.content)
             }
         };
         console.dir(parsedResult, { depth: null });
@@ -0,0 +1,109 @@
+import { ZodSchema } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { isContentParts, toDataUrl, toTextContent } from "./content";
+import { IMessage, IModelParams, IToolCall, TContentPart } from "../types";
+
+// a chat message in the format shared by OpenAI, Groq and OpenAI compatible endpoints
+export interface IChatMessage {
+    role: "system" | "user" | "assistant" | "tool",
+    content: string | IChatContentPart[] | null,
+    name?: string,
+    tool_calls?: IToolCall[],
+    tool_call_id?: string
+}
+
+// the sampling parameters shared by OpenAI, Groq and OpenAI compatible endpoints
+export interface IChatParams {
+    temperature?: number,
+    max_tokens?: number,
+    max_completion_tokens?: number,
+    seed?: number,
+    top_p?: number,
+    stop?: string | string[]
+}
+
+// a content part of a user message in the chat completion format
+export type IChatContentPart =
+    | { type: "text", text: string }
+    | { type: "image_url", image_url: { url: string, detail?: "low" | "high" | "auto" } }
+    | { type: "file", file: { file_data?: string, file_id?: string, filename?: string } }
+
+export interface IChatMessagesOptions {
+    files?: boolean // whether the endpoint accepts file parts, defaults to true
+}
+
+const toChatContentPart = (part: TContentPart, options: IChatMessagesOptions): IChatContentPart => {
+    switch (part.type) {
+        case "text":
+            return { type: "text", text: part.text };
+        case "image":
+            return { type: "image_url", image_url: { url: toDataUrl(part), ...(part.detail ? { detail: part.detail } : {}) } };
+        case "file":
+            if (options.files === false) {
+                throw new Error(`File content parts are not supported by this provider.`);
+            }
+            return { type: "file", file: part.fileId ? { file_id: part.fileId } : { file_data: toDataUrl(part), filename: part.name } };
+    }
+}
+
+/**
+ * Maps the system prompt and our history onto the chat completion message format.
+ * Only the fields known to the chat completion APIs are passed on.
+ * Content parts of user messages are translated, other roles only receive their text.
+ *
+ * @param {string} system - The system prompt.
+ * @param {IMessage[]} history - The history of the agent.
+ * @param {IChatMessagesOptions} [options] - The content the endpoint supports.
+ * @returns {IChatMessage[]} - The chat completion messages.
+ */
+export const toChatMessages = (system: string, history: IMessage[], options: IChatMessagesOptions = {}): IChatMessage[] => {
+    return [
+        { role: "system", content: system },
+        ...history.map((message): IChatMessage => {
+            if (message.role === "tool") {
+                return { role: "tool", tool_call_id: message.tool_call_id, content: toTextContent(message.content) };
+            }
+            if (message.tool_calls?.length) {
+                return { role: "assistant", name: message.name, content: message.content ? toTextContent(message.content) : null, tool_calls: message.tool_calls };
+            }
+            if (message.role === "user" && isContentParts(message.content)) {
+                return { role: "user", name: message.name, content: message.content.map((part) => toChatContentPart(part, options)) };
+            }
+            return { role: message.role, name: message.name, content: toTextContent(message.content) };
+        })
+    ];
+}
+
+/**
+ * Builds the system prompt of a tool calling loop. Endpoints which cannot combine tools with a
+ * response format are asked for the JSON Schema of the final answer in the prompt.
+ *
+ * @param {string} task - The task of the agent.
+ * @param {ZodSchema} [outputSchema] - The schema of the final answer, if the agent has one.
+ * @returns {string} - The system prompt.
+ */
+export const toToolSystemPrompt = (task: string, outputSchema?: ZodSchema): string => {
+    return outputSchema
+        ? `${task} When you are done calling tools, respond only with JSON matching the following JSON Schema: ${JSON.stringify(zodToJsonSchema(outputSchema))}`
+        : task;
+}
+
+/**
+ * Maps our sampling parameters onto the chat completion parameters. Unset parameters are left out.
+ * OpenAI replaced max_tokens by max_completion_tokens, other endpoints still expect max_tokens.
+ *
+ * @param {IModelParams} [modelParams] - The sampling parameters of the request.
+ * @param {"max_tokens" | "max_completion_tokens"} [maxTokensParam] - The name of the max tokens parameter.
+ * @returns {IChatParams} - The chat completion parameters.
+ */
+export const toChatParams = (modelParams: IModelParams = {}, maxTokensParam: "max_tokens" | "max_completion_tokens" = "max_tokens"): IChatParams => {
+    const params: IChatParams = {
+        temperature: modelParams.temperature,
+        [maxTokensParam]: modelParams.maxTokens,
+        seed: modelParams.seed,
+        top_p: modelParams.topP,
+        stop: modelParams.stop,
+    };
+
+    return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,115 @@
+import { IRetryPolicy } from "../types";
+
+export const DEFAULT_RETRY_POLICY: IRetryPolicy = {
+    maxRetries: 3,
+    initialDelayMs: 500,
+    maxDelayMs: 30000,
+    factor: 2,
+    jitter: true
+};
+
+// The options of the provider SDK clients. Retries are handled by withRetry, so the clients must not retry on their own
+export const NO_CLIENT_RETRIES = { maxRetries: 0 };
+
+// HTTP status codes of transient failures: request timeout, conflict, rate limit and server errors
+const RETRYABLE_STATUS_CODES = [408, 409, 429];
+// connection failures of the OpenAI, Groq and Anthropic SDKs
+const RETRYABLE_ERROR_NAMES = ["APIConnectionError", "APIConnectionTimeoutError"];
+const RETRYABLE_ERROR_CODES = ["ETIMEDOUT", "ECONNRESET", "ECONNREFUSED", "EAI_AGAIN", "EPIPE"];
+
+/**
+ * Decides if a failed request is worth retrying: rate limits, server errors, timeouts and connection failures.
+ */
+export const isRetryableError = (error: any): boolean => {
+    if (!error || typeof error !== "object") return false;
+
+    if (typeof error.status === "number") {
+        return RETRYABLE_STATUS_CODES.includes(error.status) || error.status >= 500;
+    }
+
+    return RETRYABLE_ERROR_NAMES.includes(error.name) || RETRYABLE_ERROR_CODES.includes(error.code);
+}
+
+/**
+ * Reads the delay requested by the "retry-after-ms" or "retry-after" header of a failed request.
+ * "retry-after" is either a number of seconds or an HTTP date.
+ */
+export const getRetryAfterMs = (error: any): number | undefined => {
+    const headers = error?.headers;
+    if (!headers) return undefined;
+
+    const header = (name: string): string | undefined => {
+        const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+        return value ?? undefined;
+    };
+
+    const retryAfterMs = Number(header("retry-after-ms"));
+    if (header("retry-after-ms") !== undefined && Number.isFinite(retryAfterMs)) {
+        return Math.max(0, retryAfterMs);
+    }
+
+    const retryAfter = header("retry-after");
+    if (retryAfter === undefined) return undefined;
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the exponential backoff before the given retry, with "equal jitter" if enabled.
+ */
+export const getBackoffMs = (policy: IRetryPolicy, retry: number): number => {
+    const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.factor, retry));
+    return policy.jitter ? delay / 2 + Math.random() * delay / 2 : delay;
+}
+
+/**
+ * Waits before a retry. A cancellation ends the wait early with the abort reason.
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs a provider request and retries it on transient failures with exponential backoff.
+ * A "Retry-After" header of the failed request takes precedence over the computed backoff, capped at maxDelayMs.
+ * These transport retries are independent of an agent's evaluation retries.
+ *
+ * @param {() => Promise<T>} request - The request to run.
+ * @param {Partial<IRetryPolicy>} [policy] - Overrides of the default retry policy.
+ * @param {AbortSignal} [signal] - Stops retrying once the invocation is cancelled.
+ * @returns {Promise<T>} - The result of the first successful attempt.
+ */
+export const withRetry = async <T>(request: () => Promise<T>, policy: Partial<IRetryPolicy> = {}, signal?: AbortSignal): Promise<T> => {
+    const resolvedPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+    for (let retry = 0; ; retry++) {
+        try {
+            return await request();
+        } catch (error) {
+            if (retry >= resolvedPolicy.maxRetries || !isRetryableError(error) || signal?.aborted) {
+                throw error;
+            }
+
+            const retryAfter = getRetryAfterMs(error);
+            const delay = retryAfter !== undefined ? Math.min(retryAfter, resolvedPolicy.maxDelayMs) : getBackoffMs(resolvedPolicy, retry);
+            console.warn(`Request failed (${error instanceof Error ? error.message : error}). Retrying in ${Math.round(delay)}ms (${retry + 1}/${resolvedPolicy.maxRetries}).`);
+            await sleep(delay, signal);
+        }
+    }
+}
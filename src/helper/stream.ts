@@ -0,0 +1,183 @@
+import { ICompletionConfig, IResult, IToolCall, IUsage, TStreamEvent, TStreamListener } from "../types";
+import { toUsage } from "./usage";
+
+// the subset of a streamed chat completion chunk shared by the OpenAI and Groq SDKs
+interface IChatCompletionChunk {
+    choices: Array<{
+        delta: {
+            content?: string | null,
+            tool_calls?: Array<{
+                index: number,
+                id?: string,
+                function?: { name?: string, arguments?: string }
+            }>
+        }
+    }>,
+    usage?: Parameters<typeof toUsage>[0] // OpenAI sends the usage in the last chunk if requested
+    x_groq?: { usage?: Parameters<typeof toUsage>[0] } // Groq sends it in the last chunk
+}
+
+export interface IStreamedCompletion {
+    content: string,
+    toolCalls: IToolCall[],
+    usage?: IUsage
+}
+
+/**
+ * Parses incomplete JSON by closing open strings, arrays and objects.
+ * Returns undefined if the text cannot be completed to valid JSON yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const char of text) {
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (char === "\\") {
+                escaped = true;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+        } else if (char === "{") {
+            closers.push("}");
+        } else if (char === "[") {
+            closers.push("]");
+        } else if (char === "}" || char === "]") {
+            closers.pop();
+        }
+    }
+
+    let candidate = text;
+    if (inString) {
+        candidate = (escaped ? candidate.slice(0, -1) : candidate) + '"';
+    }
+    candidate = candidate.trimEnd();
+    if (candidate.endsWith(",")) {
+        candidate = candidate.slice(0, -1);
+    } else if (candidate.endsWith(":")) {
+        candidate += "null";
+    }
+    candidate += closers.reverse().join("");
+
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Consumes a streamed chat completion, emitting token deltas and, for JSON outputs, partial JSON.
+ *
+ * @param {AsyncIterable<IChatCompletionChunk>} stream - The chunk stream of the provider SDK.
+ * @param {ICompletionConfig} completionConfig - The completion config holding the event listener.
+ * @param {boolean} json - Whether the content is JSON and partial JSON events should be emitted.
+ * @returns {Promise<IStreamedCompletion>} - The accumulated content, tool calls and usage.
+ */
+export const collectChatStream = async (
+    stream: AsyncIterable<IChatCompletionChunk>,
+    completionConfig: ICompletionConfig,
+    json: boolean
+): Promise<IStreamedCompletion> => {
+    const emit = completionConfig.onEvent;
+    const toolCalls: IToolCall[] = [];
+    let content = "";
+    let lastPartial = "";
+    let usage: IUsage | undefined;
+
+    for await (const chunk of stream) {
+        usage = toUsage(chunk.usage ?? chunk.x_groq?.usage) ?? usage;
+
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+            content += delta.content;
+            emit?.({ type: "token", agent: completionConfig.name, delta: delta.content });
+
+            if (json) {
+                const value = parsePartialJson(content);
+                const serialized = JSON.stringify(value);
+                if (value !== undefined && serialized !== lastPartial) {
+                    lastPartial = serialized;
+                    emit?.({ type: "partial_json", agent: completionConfig.name, value });
+                }
+            }
+        }
+
+        for (const toolCallDelta of delta.tool_calls ?? []) {
+            const toolCall = toolCalls[toolCallDelta.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } };
+            toolCall.id += toolCallDelta.id ?? "";
+            toolCall.function.name += toolCallDelta.function?.name ?? "";
+            toolCall.function.arguments += toolCallDelta.function?.arguments ?? "";
+        }
+    }
+
+    return { content, toolCalls, usage };
+}
+
+/**
+ * Turns an invocation into an async iterator of its events.
+ * The iterator ends with a "result" event and returns the final result.
+ * Leaving the iteration early, e.g. with break, cancels the invocation.
+ *
+ * @param {(onEvent: TStreamListener, signal: AbortSignal) => Promise<T>} run - Starts the invocation with the given listener and signal.
+ * @param {AbortSignal} [signal] - The signal of the invocation, combined with the signal passed to run.
+ * @returns {AsyncGenerator<TStreamEvent, T>} - The events of the invocation.
+ */
+export async function* streamEvents<T extends IResult>(
+    run: (onEvent: TStreamListener, signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+): AsyncGenerator<TStreamEvent, T> {
+    const queue: TStreamEvent[] = [];
+    const controller = new AbortController();
+    let wake: (() => void) | undefined;
+    let done = false;
+    let failure: { error: unknown } | undefined;
+    let result: T | undefined;
+
+    run((event) => {
+        if (controller.signal.aborted) return;
+        queue.push(event);
+        wake?.();
+    }, signal ? AbortSignal.any([signal, controller.signal]) : controller.signal).then(
+        (value) => { result = value; },
+        (error) => { failure = { error }; }
+    ).finally(() => {
+        done = true;
+        wake?.();
+    });
+
+    try {
+        while (true) {
+            if (queue.length > 0) {
+                yield queue.shift()!;
+                continue;
+            }
+            if (done) break;
+            await new Promise<void>((resolve) => { wake = resolve; });
+            wake = undefined;
+        }
+    } finally {
+        // the consumer stopped iterating before the invocation ended
+        if (!done) {
+            controller.abort(new Error("The stream was closed."));
+            queue.length = 0;
+        }
+    }
+
+    if (failure) {
+        throw failure.error;
+    }
+
+    yield { type: "result", result: result! };
+    return result!;
+}
@@ -0,0 +1,158 @@
+import _ from "lodash";
+import { stableStringify } from "./hash";
+import { ITemplate, ITemplateContext, TTemplateCheck } from "../types";
+
+type TNode =
+    | { type: "text", value: string }
+    | { type: "value", path: string }
+    | { type: "if", path: string, then: TNode[], otherwise: TNode[] }
+    | { type: "each", path: string, body: TNode[] };
+
+// a block of the parser, the nodes of the open {{#if}} or {{#each}} are added to its current branch
+interface IBlock {
+    node: TNode | null,
+    branch: TNode[],
+    tag: string
+}
+
+const PLACEHOLDER = /{{\s*([^{}]+?)\s*}}/g;
+
+/**
+ * Checks that a placeholder path starts with a root of the template context.
+ */
+const checkPath = (path: string, tag: string): string => {
+    if (!/^(state(\.[\w$-]+)+|state|task|this(\.[\w$-]+)*|@index)$/.test(path)) {
+        throw new Error(`Invalid template placeholder "{{${tag}}}". Expected a path starting with "state.", "task", "this" or "@index".`);
+    }
+    return path;
+}
+
+const parse = (source: string): TNode[] => {
+    const root: IBlock = { node: null, branch: [], tag: "" };
+    const stack: IBlock[] = [root];
+    const current = () => stack[stack.length - 1];
+
+    let position = 0;
+    let match: RegExpExecArray | null;
+    const placeholders = new RegExp(PLACEHOLDER);
+    while ((match = placeholders.exec(source)) !== null) {
+        if (match.index > position) {
+            current().branch.push({ type: "text", value: source.slice(position, match.index) });
+        }
+        position = match.index + match[0].length;
+
+        const tag = match[1];
+        const [keyword, ...rest] = tag.split(/\s+/);
+        const path = rest.join(" ");
+
+        if (keyword === "#if") {
+            const node: TNode = { type: "if", path: checkPath(path, tag), then: [], otherwise: [] };
+            current().branch.push(node);
+            stack.push({ node, branch: node.then, tag });
+        } else if (keyword === "#each") {
+            const node: TNode = { type: "each", path: checkPath(path, tag), body: [] };
+            current().branch.push(node);
+            stack.push({ node, branch: node.body, tag });
+        } else if (tag === "else") {
+            const block = current();
+            if (block.node?.type !== "if" || block.branch !== block.node.then) {
+                throw new Error(`Invalid template: "{{else}}" outside of an "{{#if}}" block.`);
+            }
+            block.branch = block.node.otherwise;
+        } else if (tag === "/if" || tag === "/each") {
+            const block = current();
+            if (block.node?.type !== tag.slice(1)) {
+                throw new Error(`Invalid template: unexpected "{{${tag}}}".`);
+            }
+            stack.pop();
+        } else {
+            current().branch.push({ type: "value", path: checkPath(tag, tag) });
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Invalid template: "{{${current().tag}}}" is not closed.`);
+    }
+    if (position < source.length) {
+        root.branch.push({ type: "text", value: source.slice(position) });
+    }
+    return root.branch;
+}
+
+interface IScope {
+    context: ITemplateContext,
+    item?: any,
+    index?: number
+}
+
+const resolve = (path: string, scope: IScope): any => {
+    if (path === "@index") return scope.index;
+    if (path === "task") return scope.context.task;
+
+    const [root, ...keys] = path.split(".");
+    const value = root === "this" ? scope.item : scope.context.state;
+    return keys.length > 0 ? _.get(value, keys) : value;
+}
+
+const isTruthy = (value: any): boolean => {
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Renders values deterministically: objects and arrays as JSON with sorted keys.
+ */
+const stringify = (value: any): string => {
+    return typeof value === "object" && value !== null ? stableStringify(value) : String(value);
+}
+
+const renderNodes = (nodes: TNode[], scope: IScope): string => {
+    return nodes.map((node) => {
+        switch (node.type) {
+            case "text":
+                return node.value;
+            case "value": {
+                const value = resolve(node.path, scope);
+                if (value === undefined) {
+                    throw new Error(`Template placeholder "{{${node.path}}}" is undefined.`);
+                }
+                return stringify(value);
+            }
+            case "if":
+                return renderNodes(isTruthy(resolve(node.path, scope)) ? node.then : node.otherwise, scope);
+            case "each": {
+                const items = resolve(node.path, scope) ?? [];
+                if (!Array.isArray(items)) {
+                    throw new Error(`Template placeholder "{{#each ${node.path}}}" is not an array.`);
+                }
+                return items.map((item, index) => renderNodes(node.body, { ...scope, item, index })).join("");
+            }
+        }
+    }).join("");
+}
+
+/**
+ * Compiles a template with {{state.path}}, {{task}}, {{#if state.path}}...{{else}}...{{/if}} and
+ * {{#each state.path}}...{{this.name}} {{@index}}...{{/each}} placeholders.
+ * Syntax errors and unknown placeholder roots throw when the template is compiled.
+ *
+ * @param {string} source - The template.
+ * @returns {ITemplate} - The compiled template.
+ */
+export const compileTemplate = (source: string): ITemplate => {
+    const nodes = parse(source);
+    return {
+        source,
+        render: (context: ITemplateContext) => renderNodes(nodes, { context })
+    };
+}
+
+/**
+ * Creates a template whose state placeholders are checked against the state type at compile time,
+ * e.g. template<IWeatherState>()("The humidity is {{state.weather.humidity}}.").
+ * An unknown placeholder fails type-checking with the placeholder in the error.
+ *
+ * @returns {(source: string) => ITemplate<TState>} - Compiles a template of the state type.
+ */
+export const template = <TState extends Record<string, any>>() => {
+    return <S extends string>(source: S, ..._check: TTemplateCheck<S, TState>): ITemplate<TState> => compileTemplate(source);
+}
@@ -0,0 +1,106 @@
+import { estimateCost } from "../provider/pricing";
+import { IMessage, IUsage, IUsageReport } from "../types";
+
+// the usage object of the OpenAI and Groq chat completion APIs
+interface IChatCompletionUsage {
+    prompt_tokens: number,
+    completion_tokens: number,
+    total_tokens?: number,
+    prompt_tokens_details?: { cached_tokens?: number } | null
+}
+
+export const emptyUsage = (): IUsage => ({
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    totalTokens: 0,
+    cost: 0
+});
+
+/**
+ * Roughly estimates the number of tokens of a text, at about four characters per token.
+ */
+export const estimateTokens = (text: string): number => {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Converts the usage of an OpenAI or Groq chat completion. Returns undefined if the response had no usage.
+ */
+export const toUsage = (usage: IChatCompletionUsage | null | undefined): IUsage | undefined => {
+    if (!usage) return undefined;
+
+    return {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+        totalTokens: usage.total_tokens ?? usage.prompt_tokens + usage.completion_tokens
+    };
+}
+
+export const addUsage = (a: IUsage, b: IUsage): IUsage => ({
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: (a.cost ?? 0) + (b.cost ?? 0)
+});
+
+const addUsageTo = (target: Record<string, IUsage>, key: string, usage: IUsage): void => {
+    target[key] = addUsage(target[key] ?? emptyUsage(), usage);
+}
+
+export const emptyUsageReport = (): IUsageReport => ({
+    total: emptyUsage(),
+    byAgent: {},
+    byNode: {}
+});
+
+/**
+ * Sums the usage of the model calls recorded in an agent's messages.
+ * The estimated cost of a call is computed from the pricing of the model which answered it.
+ *
+ * @param {string} agentName - The name of the agent.
+ * @param {IMessage[]} messages - The messages of a single invocation of the agent.
+ * @returns {IUsageReport} - The usage of the invocation.
+ */
+export const summarizeUsage = (agentName: string, messages: IMessage[]): IUsageReport => {
+    const total = messages.reduce((sum, message) => {
+        // cached answers cost nothing, their usage was counted when they were cached
+        if (!message.usage || message.cached) return sum;
+        return addUsage(sum, { ...message.usage, cost: estimateCost(message.model, message.usage) });
+    }, emptyUsage());
+
+    return {
+        total,
+        byAgent: { [agentName]: total },
+        byNode: {}
+    };
+}
+
+/**
+ * Adds the usage report of a worker to the report of the graph or architecture running it.
+ * The worker's total is booked on its node, its per agent and per node usage is carried over.
+ *
+ * @param {IUsageReport} report - The report of the graph or architecture.
+ * @param {IUsageReport | undefined} workerReport - The report of the worker, if it returned one.
+ * @param {string} [node] - The node name of the worker, if it ran as a graph node.
+ * @returns {IUsageReport} - The combined report.
+ */
+export const mergeUsageReports = (report: IUsageReport, workerReport: IUsageReport | undefined, node?: string): IUsageReport => {
+    if (!workerReport) return report;
+
+    const merged: IUsageReport = {
+        total: addUsage(report.total, workerReport.total),
+        byAgent: { ...report.byAgent },
+        byNode: { ...report.byNode }
+    };
+
+    Object.entries(workerReport.byAgent).forEach(([agent, usage]) => addUsageTo(merged.byAgent, agent, usage));
+    Object.entries(workerReport.byNode).forEach(([workerNode, usage]) => addUsageTo(merged.byNode, workerNode, usage));
+    if (node) {
+        addUsageTo(merged.byNode, node, workerReport.total);
+    }
+
+    return merged;
+}
@@ -1,4 +1,5 @@
 export * from "./base";
 export * from "./architectures";
 export * from "./lifecycles";
-export * from './types'
\ No newline at end of file
+export * from "./provider";
+export * from './types'
@@ -1,9 +1,10 @@
-import OpenAI from "openai";
+import { getOpenAIClient } from "../provider/openai";
 import { z } from "zod";
 import { zodResponseFormat } from "openai/helpers/zod";
 import { Logger } from "../helper/logger";
 import _ from "lodash"; // Lodash import
-import { IActionResult, IEvaluationFunction } from "../types";
+import { getProviderConfig } from "../provider/config";
+import { IActionResult, IEvaluationContext, IEvaluationFunction } from "../types";
 
 // TODO: Implement nested evaluation like weather.humidity
 
@@ -454,6 +455,7 @@ export const isEmpty = (field: string): IEvaluationFunction => {
 
 /**
  * Creates an evaluation function that uses OpenAI to evaluate a field against a condition.
+ * The request uses the OpenAI configuration of the evaluated agent and its invocation, e.g. a tenant's API key.
  *
  * @param {string} field - The field to evaluate.
  * @param {string} evaluation - The condition to evaluate the field against.
@@ -466,8 +468,8 @@ export const evaluate = (
     model: string
 ): IEvaluationFunction => {
     return {
-        run: async (result: any): Promise<IActionResult> => {
-            const openai = new OpenAI();
+        run: async (result: any, context?: IEvaluationContext): Promise<IActionResult> => {
+            const openai = getOpenAIClient(context?.resolveProviderConfig("openai") ?? getProviderConfig("openai"));
 
             if (!result.hasOwnProperty(field)) {
                 return {
@@ -495,7 +497,7 @@ export const evaluate = (
                         }),
                         "evaluation"
                     ),
-                });
+                }, { signal: context?.signal });
 
                 const condition =
                     completion.choices[0].message.parsed?.final ?? false; // Default to false if undefined
@@ -2,7 +2,7 @@
 import { Logger } from "../helper/logger";
 import { State } from "../base/state";
 import _ from "lodash";
-import { IActionResult, IStateManipulationFunction } from "../types";
+import { IActionResult, IStateManipulationFunction, TManipulationPaths, TPath } from "../types";
 
 
 // --------------------------------------------------
@@ -12,14 +12,14 @@ const logger = new Logger();
 
 /**
  * Function to create a set state manipulation function.
+ * The state path is checked against the state type of the agent, e.g. set<IWeatherState>("weather.humidity").
  * @param from - The path to retrieve the value from.
  * @param to - The path in the state where the value should be set. Defaults to 'from' if not provided.
  * @returns IStateManipulationFunction that can be executed to perform the set operation.
  */
-export const set = <T extends Record<string, any>>(
-    from: string,
-    to: string = from
-): IStateManipulationFunction => ({
+export const set = <T extends Record<string, any> = any>(
+    ...[from, to = from as TPath<T>]: TManipulationPaths<T>
+): IStateManipulationFunction<T> => ({
     run: (result: any, state: State<T>): IActionResult => {
         try {
             const parsedResult = JSON.parse(result.content);
@@ -52,13 +52,12 @@ export const set = <T extends Record<string, any>>(
 /**
  * Function to create a push state manipulation function.
  * @param from - The path to retrieve the value from.
- * @param to - The path in the state where the value should be pushed. Defaults to 'from' if not provided.
+ * @param to - The path in the state where the value should be pushed, checked against the state type. Defaults to 'from' if not provided.
  * @returns IStateManipulationFunction that can be executed to perform the push operation.
  */
-export const push = <T extends Record<string, any>>(
-    from: string,
-    to: string = from
-): IStateManipulationFunction => ({
+export const push = <T extends Record<string, any> = any>(
+    ...[from, to = from as TPath<T>]: TManipulationPaths<T>
+): IStateManipulationFunction<T> => ({
     run: (result: any, state: State<T>): IActionResult => {
         try {
             const parsedResult = JSON.parse(result.content);
@@ -0,0 +1,235 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { z, ZodSchema } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { runToolLoop } from "../base/tools";
+import { isContentParts, parseDataUrl, toTextContent } from "../helper/content";
+import { toToolSystemPrompt } from "../helper/messages";
+import { NO_CLIENT_RETRIES, withRetry } from "../helper/retry";
+import { getClient, getProviderConfig } from "./config";
+import { EOutput, ICompletionConfig, IMessage, IProviderConfig, IToolTurn, IUsage, TContentPart } from "../types";
+
+/**
+ * Returns the Anthropic client for a provider configuration, created on first use.
+ *
+ * @param {IProviderConfig} [config] - The provider configuration, defaults to the global one.
+ * @returns {Anthropic} - The cached client.
+ */
+export const getAnthropicClient = (config: IProviderConfig = getProviderConfig("anthropic")): Anthropic => {
+  return getClient("anthropic", config, (clientConfig) => new Anthropic({ ...clientConfig, ...NO_CLIENT_RETRIES }));
+}
+
+const client = (completionConfig: ICompletionConfig): Anthropic => getAnthropicClient(completionConfig.providerConfig);
+
+// The Messages API requires an explicit upper bound for the generated tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+export async function anthropicCompletion(completionConfig: ICompletionConfig): Promise<IMessage> {
+  try {
+    const completionTypeMap: Record<EOutput, (config: ICompletionConfig) => Promise<IMessage>> = {
+      'json': structuredCompletion,
+      'text': textCompletion,
+      'tool_call': toolCompletion,
+    };
+
+    const completionType = completionTypeMap[completionConfig.outputType];
+    if (!completionType) {
+      throw new Error(`Unsupported output type: ${completionConfig.outputType}`);
+    }
+
+    const result = await completionType(completionConfig);
+    return result;
+  } catch (error) {
+    console.error("Error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Maps a content part onto a content block. The Messages API only takes images and PDFs as base64 data.
+ */
+const toAnthropicBlock = (part: TContentPart): Anthropic.ContentBlockParam => {
+  if (part.type === "text") {
+    return { type: "text", text: part.text };
+  }
+
+  const source = part.type === "image" && part.url
+    ? parseDataUrl(part.url)
+    : part.data && part.mimeType ? { mimeType: part.mimeType, data: part.data } : undefined;
+  if (!source) {
+    throw new Error(`Anthropic requires content parts of type "${part.type}" as base64 data.`);
+  }
+
+  if (part.type === "image") {
+    return { type: "image", source: { type: "base64", media_type: source.mimeType as Anthropic.ImageBlockParam.Source["media_type"], data: source.data } };
+  }
+  if (source.mimeType !== "application/pdf") {
+    throw new Error(`Anthropic only supports PDF documents, got "${source.mimeType}".`);
+  }
+  return { type: "document", source: { type: "base64", media_type: "application/pdf", data: source.data } };
+}
+
+/**
+ * Maps our history onto the Messages API format.
+ * The Messages API only knows "user" and "assistant" turns and takes the system prompt separately,
+ * so system messages of the history (e.g. evaluation results) are passed as user turns.
+ * Tool calls become tool_use blocks, tool results become tool_result blocks of a user turn.
+ * Content parts of user messages become text, image and document blocks.
+ * Consecutive turns of the same role are merged.
+ */
+const toAnthropicMessages = (history: IMessage[]): Anthropic.MessageParam[] => {
+  const messages: Array<{ role: "user" | "assistant", content: Anthropic.ContentBlockParam[] }> = [];
+
+  for (const message of history) {
+    const role = message.role === "assistant" ? "assistant" : "user";
+    // assistant turns with tool calls may have no content
+    const text = message.content ? toTextContent(message.content) : "";
+    const content: Anthropic.ContentBlockParam[] = [];
+
+    if (message.role === "user" && isContentParts(message.content)) {
+      content.push(...message.content.map(toAnthropicBlock));
+    } else if (message.role === "tool") {
+      content.push({ type: "tool_result", tool_use_id: message.tool_call_id ?? "", content: text });
+    } else {
+      if (text) {
+        content.push({ type: "text", text: message.role === "system" ? `[${message.name}]: ${text}` : text });
+      }
+      for (const toolCall of message.tool_calls ?? []) {
+        content.push({ type: "tool_use", id: toolCall.id, name: toolCall.function.name, input: JSON.parse(toolCall.function.arguments || "{}") });
+      }
+    }
+
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...content);
+      continue;
+    }
+
+    messages.push({ role, content });
+  }
+
+  return messages;
+}
+
+/**
+ * Maps our sampling parameters onto the Messages API. It has no seed, so a seed is ignored.
+ */
+const toAnthropicParams = (completionConfig: ICompletionConfig) => {
+  const { temperature, maxTokens, seed, topP, stop } = completionConfig.modelParams ?? {};
+  if (seed !== undefined) {
+    console.warn(`Anthropic does not support seeds. The seed of agent "${completionConfig.name}" is ignored.`);
+  }
+
+  return {
+    max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(topP !== undefined ? { top_p: topP } : {}),
+    ...(stop !== undefined ? { stop_sequences: Array.isArray(stop) ? stop : [stop] } : {}),
+  };
+}
+
+/**
+ * Converts the usage of a message. The Messages API counts cached prompt tokens separately from input_tokens.
+ */
+const toAnthropicUsage = (usage: Anthropic.Usage): IUsage => {
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  const promptTokens = usage.input_tokens + cachedTokens + (usage.cache_creation_input_tokens ?? 0);
+
+  return {
+    promptTokens,
+    completionTokens: usage.output_tokens,
+    cachedTokens,
+    totalTokens: promptTokens + usage.output_tokens
+  };
+}
+
+/**
+ * Forces the model to call a single tool whose input schema is the expected output schema.
+ * The tool input is then our structured result.
+ */
+const forcedToolCompletion = async (completionConfig: ICompletionConfig, schema: ZodSchema): Promise<IMessage> => {
+  const message = await withRetry(() => client(completionConfig).messages.create({
+    system: completionConfig.task,
+    messages: toAnthropicMessages(completionConfig.history),
+    model: completionConfig.model,
+    ...toAnthropicParams(completionConfig),
+    stream: false,
+    tools: [{
+      name: "result",
+      description: "Respond with your result using this tool.",
+      input_schema: zodToJsonSchema(schema) as Anthropic.Tool.InputSchema,
+    }],
+    tool_choice: { type: "tool", name: "result" },
+  }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
+
+  const toolUse = message.content.find((block): block is Anthropic.ToolUseBlock => block.type === "tool_use");
+  if (!toolUse) {
+    throw new Error(`Model "${completionConfig.model}" did not return a structured result for agent "${completionConfig.name}".`);
+  }
+
+  // The tool input is not guaranteed to match its schema
+  const parsed = schema.safeParse(toolUse.input);
+  if (!parsed.success) {
+    throw new Error(`Model "${completionConfig.model}" returned a structured result not matching the output schema of agent "${completionConfig.name}": ${parsed.error.message}`);
+  }
+
+  return {
+    name: completionConfig.name,
+    role: "assistant",
+    content: JSON.stringify(parsed.data),
+    usage: toAnthropicUsage(message.usage)
+  };
+}
+
+export const structuredCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+  return forcedToolCompletion(completionConfig, completionConfig.outputSchema);
+}
+
+export const textCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+  return forcedToolCompletion(completionConfig, z.object({
+    message: z.string().describe("Your answer")
+  }));
+}
+
+export const toolCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+
+  if (!Array.isArray(completionConfig.tools)) {
+    throw new Error(`Tools configuration is invalid for agent "${completionConfig.name}". Expected an array.`);
+  }
+
+  const system = toToolSystemPrompt(completionConfig.task, completionConfig.outputSchema);
+  const tools = completionConfig.tools.map(tool => ({
+    name: tool.functionDefinition.function.name,
+    description: tool.functionDefinition.function.description,
+    input_schema: tool.functionDefinition.function.parameters,
+  }));
+
+  return runToolLoop(completionConfig, async (history, final): Promise<IToolTurn> => {
+    // The Messages API has no tool choice "none", so the final turn is requested in the prompt
+    const message = await withRetry(() => client(completionConfig).messages.create({
+      system: final ? `${system} Do not call any more tools, answer now.` : system,
+      messages: toAnthropicMessages(history),
+      model: completionConfig.model,
+      ...toAnthropicParams(completionConfig),
+      stream: false,
+      tools,
+      tool_choice: { type: "auto" },
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
+
+    const text = message.content
+      .filter((block): block is Anthropic.TextBlock => block.type === "text")
+      .map(block => block.text)
+      .join("");
+
+    return {
+      content: text,
+      toolCalls: message.content
+        .filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use")
+        .map(block => ({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input) }
+        })),
+      usage: toAnthropicUsage(message.usage)
+    };
+  });
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { describeCompletionRequest, hashCompletionRequest } from "../helper/hash";
+import { parsePartialJson } from "../helper/stream";
+import { ICacheEntry, ICacheStore, ICompletionConfig, IMessage, IResponseCacheConfig, TProviderCompletion } from "../types";
+
+let activeConfig: IResponseCacheConfig | undefined;
+
+/**
+ * Activates the response cache for all provider calls. Identical requests, i.e. the same provider, model,
+ * messages, schema, tools and parameters, are answered from the cache without calling the provider.
+ * Cached answers are marked with `cached: true` and are left out of the usage reports.
+ * Single invocations bypass the cache with `cache: false`.
+ *
+ * @param {IResponseCacheConfig} [config] - The cache configuration.
+ * @param {ICacheStore} [config.store] - Where responses are stored, defaults to memoryCacheStore().
+ * @param {number} [config.ttlMs] - How long responses are served from the cache. Never expire if omitted.
+ */
+export const useResponseCache = (config: Partial<IResponseCacheConfig> = {}): void => {
+    if (config.ttlMs !== undefined && config.ttlMs <= 0) {
+        throw new Error(`Invalid cache TTL: ${config.ttlMs}. Expected a positive number of milliseconds.`);
+    }
+    activeConfig = { store: config.store ?? memoryCacheStore(), ttlMs: config.ttlMs };
+}
+
+/**
+ * Deactivates the response cache. Stored responses are kept.
+ */
+export const disableResponseCache = (): void => {
+    activeConfig = undefined;
+}
+
+/**
+ * Keeps cached responses in memory, for the lifetime of the process.
+ */
+export const memoryCacheStore = (): ICacheStore => {
+    const entries = new Map<string, ICacheEntry>();
+
+    return {
+        get: async (key) => entries.get(key),
+        set: async (key, entry) => { entries.set(key, entry); },
+        delete: async (key) => { entries.delete(key); },
+        clear: async () => entries.clear()
+    };
+}
+
+/**
+ * Keeps cached responses on disk, one JSON file per request, so they survive restarts of development loops.
+ *
+ * @param {string} directory - The directory of the cache files.
+ */
+export const fileCacheStore = (directory: string): ICacheStore => {
+    const file = (key: string) => path.join(directory, `${key}.json`);
+
+    return {
+        get: async (key) => {
+            try {
+                return JSON.parse(await fs.readFile(file(key), "utf-8")) as ICacheEntry;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+                throw new Error(`Failed to read cached response "${file(key)}": ${error}`);
+            }
+        },
+        set: async (key, entry) => {
+            await fs.mkdir(directory, { recursive: true });
+            await fs.writeFile(file(key), JSON.stringify(entry, null, 2));
+        },
+        delete: async (key) => {
+            await fs.rm(file(key), { force: true });
+        },
+        clear: async () => {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    };
+}
+
+/**
+ * Replays a cached response. Its intermediate messages go to the message listener and its answer
+ * is emitted as a single token and, if it is valid JSON, as partial JSON.
+ */
+const replay = (completionConfig: ICompletionConfig, entry: ICacheEntry): IMessage => {
+    entry.messages?.forEach((message) => completionConfig.onMessage?.({ ...message, cached: true }));
+
+    const content = entry.response.content;
+    if (completionConfig.onEvent && typeof content === "string") {
+        completionConfig.onEvent({ type: "token", agent: completionConfig.name, delta: content });
+        const value = parsePartialJson(content);
+        if (value !== undefined) {
+            completionConfig.onEvent({ type: "partial_json", agent: completionConfig.name, value });
+        }
+    }
+
+    return { ...entry.response, cached: true };
+}
+
+/**
+ * Runs a provider completion through the active response cache, or directly if no cache is active.
+ * Cached TOOL_CALL responses replay the recorded tool calls and tool results without running the tools.
+ *
+ * @param {string} provider - The name of the provider.
+ * @param {TProviderCompletion} completionFn - The completion function of the provider.
+ * @param {ICompletionConfig} completionConfig - The completion request.
+ * @param {boolean} [enabled] - False bypasses the cache for this request.
+ * @returns {Promise<IMessage | undefined>} - The cached or fresh response.
+ */
+export const cachedCompletion = async (
+    provider: string,
+    completionFn: TProviderCompletion,
+    completionConfig: ICompletionConfig,
+    enabled: boolean = true
+): Promise<IMessage | undefined> => {
+    const config = activeConfig;
+    if (!config || !enabled) {
+        return completionFn(completionConfig);
+    }
+
+    const key = hashCompletionRequest(provider, completionConfig);
+    const entry = await config.store.get(key);
+    if (entry) {
+        if (config.ttlMs === undefined || Date.now() - entry.createdAt < config.ttlMs) {
+            return replay(completionConfig, entry);
+        }
+        await config.store.delete(key);
+    }
+
+    // the intermediate messages, e.g. tool calls and tool results, are cached along with the response
+    const messages: IMessage[] = [];
+    const response = await completionFn({
+        ...completionConfig,
+        onMessage: (message) => {
+            messages.push(message);
+            completionConfig.onMessage?.(message);
+        }
+    });
+    if (response !== undefined) {
+        await config.store.set(key, {
+            request: describeCompletionRequest(provider, completionConfig),
+            response,
+            messages,
+            createdAt: Date.now()
+        });
+    }
+
+    return response;
+}
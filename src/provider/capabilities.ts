@@ -0,0 +1,132 @@
+import { EModels, EOutput, IModelCapabilities, TContentPart, TModels } from "../types";
+
+const chat = { chat: true, audio: false, streaming: true };
+const transcription: IModelCapabilities = { contextLength: 0, chat: false, tools: false, jsonSchema: false, vision: false, audio: true, streaming: false };
+
+// what the models support. JSON schemas of Groq models are enforced by validating their answers
+const capabilities = new Map<TModels, Partial<IModelCapabilities>>([
+  [EModels.gpt_4o, { ...chat, contextLength: 128000, tools: true, jsonSchema: true, vision: true }],
+  [EModels.chatgpt_4o_latest, { ...chat, contextLength: 128000, tools: false, jsonSchema: false, vision: true }],
+  [EModels.gpt_4o_mini, { ...chat, contextLength: 128000, tools: true, jsonSchema: true, vision: true }],
+  [EModels.o1, { ...chat, contextLength: 200000, tools: true, jsonSchema: true, vision: true, streaming: false }],
+  [EModels.o1_mini, { ...chat, contextLength: 128000, tools: false, jsonSchema: false, vision: false }],
+  [EModels.gpt_3_5_turbo, { ...chat, contextLength: 16385, tools: true, jsonSchema: false, vision: false }],
+  [EModels.gpt_3_5_turbo_0125, { ...chat, contextLength: 16385, tools: true, jsonSchema: false, vision: false }],
+  [EModels.gpt_3_5_turbo_1106, { ...chat, contextLength: 16385, tools: true, jsonSchema: false, vision: false }],
+  [EModels.gpt_3_5_turbo_instruct, { ...chat, contextLength: 4096, chat: false, tools: false, jsonSchema: false, vision: false }],
+  [EModels.whisper_1, transcription],
+  [EModels.distil_whisper_large_v3, transcription],
+  [EModels.whisper_large_v3, transcription],
+  [EModels.whisper_large_v3_turbo, transcription],
+  [EModels.gemma_2_9b_it, { ...chat, contextLength: 8192, tools: true, jsonSchema: true, vision: false }],
+  [EModels.llama_3_3_70b_versatile, { ...chat, contextLength: 128000, tools: true, jsonSchema: true, vision: false }],
+  [EModels.llama_3_1_8b_instasnt, { ...chat, contextLength: 128000, tools: true, jsonSchema: true, vision: false }],
+  [EModels.llama_guard_3_8b, { ...chat, contextLength: 8192, tools: false, jsonSchema: false, vision: false }],
+  [EModels.llama_3_70b_8192, { ...chat, contextLength: 8192, tools: true, jsonSchema: true, vision: false }],
+  [EModels.llama_3_8b_8192, { ...chat, contextLength: 8192, tools: true, jsonSchema: true, vision: false }],
+  [EModels.mixtral_8x7b_32768, { ...chat, contextLength: 32768, tools: true, jsonSchema: true, vision: false }],
+  [EModels.claude_3_5_sonnet, { ...chat, contextLength: 200000, tools: true, jsonSchema: true, vision: true }],
+  [EModels.claude_3_5_haiku, { ...chat, contextLength: 200000, tools: true, jsonSchema: true, vision: false }],
+  [EModels.claude_3_opus, { ...chat, contextLength: 200000, tools: true, jsonSchema: true, vision: true }],
+  [EModels.claude_3_haiku, { ...chat, contextLength: 200000, tools: true, jsonSchema: true, vision: true }],
+]);
+
+/**
+ * Sets the capabilities of a model, e.g. for models of custom providers. They are merged into the known
+ * capabilities. Capabilities which are not set are assumed to be supported.
+ *
+ * @param {TModels} model - The model in "provider/model" format.
+ * @param {Partial<IModelCapabilities>} modelCapabilities - The context length and supported features.
+ */
+export const registerModelCapabilities = (model: TModels, modelCapabilities: Partial<IModelCapabilities>): void => {
+  capabilities.set(model, { ...capabilities.get(model), ...modelCapabilities });
+}
+
+/**
+ * Sets the context window of a model, e.g. for models of custom providers.
+ *
+ * @param {TModels} model - The model in "provider/model" format.
+ * @param {number} tokens - The context window in tokens.
+ */
+export const registerContextLength = (model: TModels, tokens: number): void => {
+  registerModelCapabilities(model, { contextLength: tokens });
+}
+
+/**
+ * Returns the known capabilities of a model, or undefined if the model is unknown.
+ *
+ * @param {TModels} model - The model in "provider/model" format.
+ * @returns {Partial<IModelCapabilities> | undefined} - The capabilities.
+ */
+export const getModelCapabilities = (model: TModels): Partial<IModelCapabilities> | undefined => {
+  return capabilities.get(model);
+}
+
+/**
+ * Returns the context window of a model in tokens, or undefined if it is unknown.
+ */
+export const getContextLength = (model: TModels): number | undefined => {
+  return capabilities.get(model)?.contextLength;
+}
+
+const OUTPUT_REQUIREMENTS: Record<EOutput, Array<keyof IModelCapabilities>> = {
+  [EOutput.TEXT]: ["chat"],
+  [EOutput.JSON]: ["chat", "jsonSchema"],
+  [EOutput.TOOL]: ["chat", "tools"],
+};
+
+const FEATURE_NAMES: Record<keyof IModelCapabilities, string> = {
+  contextLength: "the context length",
+  chat: "chat completions",
+  tools: "tool calls",
+  jsonSchema: "JSON schema outputs",
+  vision: "image inputs",
+  audio: "audio transcriptions",
+  streaming: "streaming",
+};
+
+const checkModels = (agent: string, models: TModels | TModels[], requirements: Array<keyof IModelCapabilities>, reason: string): void => {
+  for (const model of Array.isArray(models) ? models : [models]) {
+    const missing = requirements.find((feature) => capabilities.get(model)?.[feature] === false);
+    if (missing) {
+      throw new Error(`Agent "${agent}" cannot use model "${model}": it does not support ${FEATURE_NAMES[missing]}, required by ${reason}.`);
+    }
+  }
+}
+
+/**
+ * Checks that every model of an agent's chain supports the agent's output type.
+ * Unknown models, e.g. of custom providers, are not checked.
+ *
+ * @throws {Error} - If a model lacks a required capability.
+ */
+export const validateAgentCapabilities = (agent: { name: string, model: TModels | TModels[], outputType: EOutput }): void => {
+  const requirements = OUTPUT_REQUIREMENTS[agent.outputType];
+  if (!requirements) {
+    throw new Error(`Unsupported output type: ${agent.outputType}`);
+  }
+  checkModels(agent.name, agent.model, requirements, `outputType "${agent.outputType}"`);
+}
+
+/**
+ * Checks that every model of a transcription agent transcribes audio.
+ *
+ * @throws {Error} - If a model lacks the audio capability.
+ */
+export const validateTranscriptionCapabilities = (agent: { name: string, model: TModels }): void => {
+  checkModels(agent.name, agent.model, ["audio"], "a TranscriptionAgent");
+}
+
+/**
+ * Checks that the models of an agent support the features used by an invocation: image attachments and streaming.
+ *
+ * @throws {Error} - If a model lacks a required capability.
+ */
+export const validateInvocationCapabilities = (agent: { name: string, model: TModels | TModels[] }, invocation: { attachments?: TContentPart[], onEvent?: unknown }): void => {
+  if (invocation.attachments?.some((part) => part.type === "image")) {
+    checkModels(agent.name, agent.model, ["vision"], "the image attachments");
+  }
+  if (invocation.onEvent) {
+    checkModels(agent.name, agent.model, ["streaming"], "the streamed invocation");
+  }
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Mutex } from "async-mutex";
+import { describeCompletionRequest, hashCompletionRequest } from "../helper/hash";
+import { ICassette, ICassetteConfig, ICompletionConfig, IMessage, TProviderCompletion } from "../types";
+
+let activeConfig: ICassetteConfig | undefined;
+let loadedCassette: ICassette | undefined;
+
+// serializes writes of parallel agents to the cassette file
+const writeMutex = new Mutex();
+
+/**
+ * Activates a cassette for all provider calls.
+ * In "record" mode every request and response is written to the cassette file.
+ * In "replay" mode responses are served from the cassette file and a missing recording throws.
+ * Replayed TOOL_CALL responses return the recorded tool result without running the tool. Their intermediate
+ * tool calls and tool results are replayed as well, so the history and usage match the recording.
+ *
+ * @param {ICassetteConfig} config - The cassette configuration.
+ * @param {string} config.path - The path of the cassette file.
+ * @param {TCassetteMode} config.mode - Either "record" or "replay".
+ */
+export const useCassette = (config: ICassetteConfig): void => {
+    if (config.mode !== "record" && config.mode !== "replay") {
+        throw new Error(`Invalid cassette mode: "${config.mode}". Expected "record" or "replay".`);
+    }
+    activeConfig = config;
+    loadedCassette = undefined;
+}
+
+/**
+ * Deactivates the current cassette. Provider calls go to the network again.
+ */
+export const ejectCassette = (): void => {
+    activeConfig = undefined;
+    loadedCassette = undefined;
+}
+
+const loadCassette = async (config: ICassetteConfig): Promise<ICassette> => {
+    if (loadedCassette) {
+        return loadedCassette;
+    }
+
+    try {
+        loadedCassette = JSON.parse(await fs.readFile(config.path, "utf-8")) as ICassette;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            throw new Error(`Failed to read cassette "${config.path}": ${error}`);
+        }
+        if (config.mode === "replay") {
+            throw new Error(`Cassette "${config.path}" does not exist. Record it first with mode "record".`);
+        }
+        loadedCassette = { version: 1, interactions: {} };
+    }
+
+    return loadedCassette;
+}
+
+/**
+ * Runs a provider completion through the active cassette, or directly if no cassette is active.
+ *
+ * @param {string} provider - The name of the provider.
+ * @param {TProviderCompletion} completionFn - The completion function of the provider.
+ * @param {ICompletionConfig} completionConfig - The completion request.
+ * @returns {Promise<IMessage | undefined>} - The recorded or fresh response.
+ */
+export const cassetteCompletion = async (
+    provider: string,
+    completionFn: TProviderCompletion,
+    completionConfig: ICompletionConfig
+): Promise<IMessage | undefined> => {
+    const config = activeConfig;
+    if (!config) {
+        return completionFn(completionConfig);
+    }
+
+    const cassette = await loadCassette(config);
+    const key = hashCompletionRequest(provider, completionConfig);
+
+    if (config.mode === "replay") {
+        const interaction = cassette.interactions[key];
+        if (!interaction) {
+            throw new Error(`Cassette miss in "${config.path}": no recorded response for agent "${completionConfig.name}" on "${provider}/${completionConfig.model}" (request ${key}).`);
+        }
+        interaction.messages?.forEach((message) => completionConfig.onMessage?.(message));
+        return interaction.response;
+    }
+
+    const request = describeCompletionRequest(provider, completionConfig);
+    // the intermediate messages, e.g. tool calls and tool results, are recorded along with the response
+    const messages: IMessage[] = [];
+    const response = await completionFn({
+        ...completionConfig,
+        onMessage: (message) => {
+            messages.push(message);
+            completionConfig.onMessage?.(message);
+        }
+    });
+    if (response === undefined) {
+        return response;
+    }
+
+    await writeMutex.runExclusive(async () => {
+        cassette.interactions[key] = { request, response, messages };
+        await fs.mkdir(path.dirname(config.path), { recursive: true });
+        await fs.writeFile(config.path, JSON.stringify(cassette, null, 2));
+    });
+
+    return response;
+}
@@ -0,0 +1,61 @@
+import { stableStringify } from "../helper/hash";
+import { IProviderConfig, TProviderConfigs } from "../types";
+
+// global provider configurations, keyed by provider name
+const configs = new Map<string, IProviderConfig>();
+// clients per provider and configuration, created on first use. Per-request configurations, e.g. of
+// tenants, would add clients without end, so the least recently used ones are dropped beyond MAX_CLIENTS
+const clients = new Map<string, unknown>();
+const MAX_CLIENTS = 100;
+
+/**
+ * Sets the global configuration of providers, e.g. their API keys.
+ * Agents and invocations can override it per provider. Without a configuration,
+ * the SDKs fall back to their environment variables like OPENAI_API_KEY.
+ *
+ * @param {TProviderConfigs} providerConfigs - The configurations, keyed by provider name.
+ */
+export const configureProviders = (providerConfigs: TProviderConfigs): void => {
+  Object.entries(providerConfigs).forEach(([name, config]) => configs.set(name, config));
+}
+
+/**
+ * Returns the global configuration of a provider.
+ *
+ * @param {string} name - The provider prefix used in model strings.
+ * @returns {IProviderConfig} - The configuration, empty if none was set.
+ */
+export const getProviderConfig = (name: string): IProviderConfig => {
+  return configs.get(name) ?? {};
+}
+
+/**
+ * Removes the global configurations of all providers and the cached clients.
+ */
+export const resetProviderConfigs = (): void => {
+  configs.clear();
+  clients.clear();
+}
+
+/**
+ * Returns the client of a provider for the given configuration, creating it on first use.
+ * Requests with equal configurations share a client. Only the most recently used clients are kept.
+ *
+ * @param {string} name - The provider prefix used in model strings.
+ * @param {IProviderConfig} config - The resolved configuration of the request.
+ * @param {(config: IProviderConfig) => T} create - Creates a client for the configuration.
+ * @returns {T} - The cached client.
+ */
+export const getClient = <T>(name: string, config: IProviderConfig, create: (config: IProviderConfig) => T): T => {
+  const key = `${name}:${stableStringify(config)}`;
+  const client = clients.has(key) ? clients.get(key) as T : create(config);
+
+  // a Map iterates in insertion order, so the first key is the least recently used client
+  clients.delete(key);
+  clients.set(key, client);
+  if (clients.size > MAX_CLIENTS) {
+    clients.delete(clients.keys().next().value!);
+  }
+
+  return client;
+}
@@ -1,12 +1,28 @@
-import Groq from "groq-sdk";  // Import Groq client library
-import 'dotenv/config';  // Loads environment variables from .env
-import { Logger } from "../helper/logger";
-import { EOutput, ICompletionConfig, IMessage } from "../types";
+import Groq, { toFile } from "groq-sdk";  // Import Groq client library
+import { z, ZodSchema } from "zod";
+import { runToolLoop } from "../base/tools";
+import { promptAndValidate } from "../helper/json";
+import { toChatMessages, toChatParams, toToolSystemPrompt } from "../helper/messages";
+import { collectChatStream } from "../helper/stream";
+import { IVerboseTranscription, readAudio, toTranscription } from "../helper/audio";
+import { NO_CLIENT_RETRIES, withRetry } from "../helper/retry";
+import { toUsage } from "../helper/usage";
+import { getClient, getProviderConfig } from "./config";
+import { EOutput, ICompletionConfig, IMessage, IProviderConfig, ITranscription, ITranscriptionConfig, IToolTurn, IUsage } from "../types";
+
+/**
+ * Returns the Groq client for a provider configuration, created on first use.
+ *
+ * @param {IProviderConfig} [config] - The provider configuration, defaults to the global one.
+ * @returns {Groq} - The cached client.
+ */
+export const getGroqClient = (config: IProviderConfig = getProviderConfig("groq")): Groq => {
+  return getClient("groq", config, (clientConfig) => new Groq({ ...clientConfig, ...NO_CLIENT_RETRIES }));
+}
 
-const groq = new Groq();  // Initialize Groq client
-const logger = new Logger();
+const client = (config: { providerConfig?: IProviderConfig }): Groq => getGroqClient(config.providerConfig);
 
-export async function groqCompletion(completionConfig: ICompletionConfig): Promise<IMessage | undefined> {
+export async function groqCompletion(completionConfig: ICompletionConfig): Promise<IMessage> {
   try {
     const completionTypeMap: Record<EOutput, (config: ICompletionConfig) => Promise<any>> = {
       'json': structuredCompletion,
@@ -23,55 +39,57 @@ export async function groqCompletion(completionConfig: ICompletionConfig): Promi
     return result;
   } catch (error) {
     console.error("Error:", error);
+    throw error;
   }
 }
 
-export const structuredCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
-  const completion = await groq.chat.completions.create({
-    messages: [
-      {
-        role: "system",
-        content: `${completionConfig.task} You have to respond in the following JSON Format:  ${completionConfig.outputSchema}`,
-      },
-      ...completionConfig.history
-    ],
+/**
+ * Requests a JSON object completion, streamed if the completion config has an event listener.
+ */
+const jsonCompletion = async (completionConfig: ICompletionConfig, system: string): Promise<{ content: string, usage?: IUsage }> => {
+  const messages = toChatMessages(system, completionConfig.history, { files: false }) as Groq.Chat.ChatCompletionMessageParam[];
+
+  if (completionConfig.onEvent) {
+    const streamed = await collectChatStream(await withRetry(() => client(completionConfig).chat.completions.create({
+      messages,
+      model: completionConfig.model,
+      ...toChatParams(completionConfig.modelParams),
+      stream: true,
+      response_format: { type: "json_object" },
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal), completionConfig, true);
+
+    return streamed;
+  }
+
+  const completion = await withRetry(() => client(completionConfig).chat.completions.create({
+    messages,
     model: completionConfig.model,
+    ...toChatParams(completionConfig.modelParams),
     stream: false,
     response_format: { type: "json_object" },
-  });
-
-  const result = JSON.parse(JSON.stringify(completion.choices[0].message.content))
+  }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
 
   return {
-    name: completionConfig.name,
-    role: "assistant",
-    content: result
+    content: completion.choices[0].message.content ?? "",
+    usage: toUsage(completion.usage)
   };
 }
 
-export const textCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
-  const completion = await groq.chat.completions.create({
-    messages: [
-      {
-        role: "system",
-        content: `${completionConfig.task} You have to respond in the following JSON Format: z.object({
-          message: z.string().describe("Your answer")
-        })`,
-      },
-      ...completionConfig.history
-    ],
-    model: completionConfig.model,
-    stream: false,
-    response_format: { type: "json_object" },
-  });
+/**
+ * Asks for JSON matching the schema in the prompt and validates the answer against it.
+ */
+const validatedJsonCompletion = async (completionConfig: ICompletionConfig, schema: ZodSchema): Promise<IMessage> => {
+  return promptAndValidate(completionConfig, schema, (system, history) => jsonCompletion({ ...completionConfig, history }, system));
+}
 
-  const result = JSON.parse(JSON.stringify(completion.choices[0].message.content))
+export const structuredCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+  return validatedJsonCompletion(completionConfig, completionConfig.outputSchema);
+}
 
-  return {
-    name: completionConfig.name,
-    role: "assistant",
-    content: result
-  };
+export const textCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+  return validatedJsonCompletion(completionConfig, z.object({
+    message: z.string().describe("Your answer")
+  }));
 }
 
 export const toolCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
@@ -80,36 +98,52 @@ export const toolCompletion = async (completionConfig: ICompletionConfig): Promi
     throw new Error(`Tools configuration is invalid for agent "${completionConfig.name}". Expected an array.`);
   }
 
+  // Groq does not combine tools with a JSON response format, so the final answer format is part of the prompt
+  const system = toToolSystemPrompt(completionConfig.task, completionConfig.outputSchema);
+  const tools = completionConfig.tools.map(tool => tool.functionDefinition);
+
+  return runToolLoop(completionConfig, async (history, final): Promise<IToolTurn> => {
+    const messages = toChatMessages(system, history, { files: false }) as Groq.Chat.ChatCompletionMessageParam[];
+
+    if (completionConfig.onEvent) {
+      return collectChatStream(await withRetry(() => client(completionConfig).chat.completions.create({
+        messages,
+        model: completionConfig.model,
+        ...toChatParams(completionConfig.modelParams),
+        stream: true,
+        tools,
+        tool_choice: final ? "none" : "auto",
+      }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal), completionConfig, false);
+    }
 
-  const completion = await groq.chat.completions.create({
-    messages: [
-      {
-        role: "system",
-        content: completionConfig.task,
-      },
-      ...completionConfig.history
-    ],
-    model: completionConfig.model,
-    stream: false,
-    tools: completionConfig.tools.map(tool => tool.functionDefinition),
-    tool_choice: "auto",
-  });
+    const completion = await withRetry(() => client(completionConfig).chat.completions.create({
+      messages,
+      model: completionConfig.model,
+      ...toChatParams(completionConfig.modelParams),
+      stream: false,
+      tools,
+      tool_choice: final ? "none" : "auto",
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
 
-  if (completion.choices[0].message.tool_calls) {
-    const toolCall = completion.choices[0].message.tool_calls[0];
-    const tool = completionConfig.tools.find(tool => tool.name === toolCall.function.name);
-    logger.tool(tool.name);
-    const result = await tool.fn(toolCall.function.arguments);
     return {
-      name: completionConfig.name,
-      role: "system",
-      content: JSON.stringify(result),
+      content: completion.choices[0].message.content,
+      toolCalls: completion.choices[0].message.tool_calls ?? [],
+      usage: toUsage(completion.usage)
     };
-  }
+  });
+}
 
-  return {
-    name: completionConfig.name,
-    role: "system",
-    content: "no tool called",
-  };
+/**
+ * Transcribes audio with a whisper model. Verbose responses contain the segments and the detected language.
+ */
+export async function groqTranscription(transcriptionConfig: ITranscriptionConfig): Promise<ITranscription> {
+  const transcription = await withRetry(async () => client(transcriptionConfig).audio.transcriptions.create({
+    file: await readAudio(transcriptionConfig.audio, (data, name) => toFile(data, name)),
+    model: transcriptionConfig.model,
+    language: transcriptionConfig.language,
+    prompt: transcriptionConfig.prompt,
+    response_format: "verbose_json",
+  }, { signal: transcriptionConfig.signal }), transcriptionConfig.retryPolicy, transcriptionConfig.signal);
+
+  return toTranscription(transcription as IVerboseTranscription);
 }
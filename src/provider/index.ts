@@ -0,0 +1,9 @@
+export { registerProvider, unregisterProvider, getProvider, getProviderNames } from "./registry";
+export { registerOpenAICompatibleProvider } from "./openaiCompatible";
+export { mockResponses, mockMatcher, getMockCalls, getMockTranscriptions, resetMock } from "./mock";
+export { useCassette, ejectCassette } from "./cassette";
+export { useResponseCache, disableResponseCache, memoryCacheStore, fileCacheStore } from "./cache";
+export { withRetry, DEFAULT_RETRY_POLICY } from "../helper/retry";
+export { registerModelPricing, getModelPricing, estimateCost } from "./pricing";
+export { registerModelCapabilities, getModelCapabilities, registerContextLength, getContextLength } from "./capabilities";
+export { configureProviders, getProviderConfig, resetProviderConfigs } from "./config";
@@ -0,0 +1,235 @@
+import { runToolLoop } from "../base/tools";
+import { withRetry } from "../helper/retry";
+import { estimateTokens } from "../helper/usage";
+import { parsePartialJson } from "../helper/stream";
+import { EOutput, ICompletionConfig, IMessage, IMockCall, IMockToolCall, IMockTranscriptionCall, IToolTurn, ITranscription, ITranscriptionConfig, IUsage, TMockMatcher, TMockResponse } from "../types";
+
+// scripted responses per agent name, consumed by call index
+const scripts = new Map<string, TMockResponse[]>();
+// matchers are checked before the scripted responses, first match wins
+const matchers: Array<{ match: TMockMatcher, response: TMockResponse }> = [];
+// every completion request the mock provider received
+const calls: IMockCall[] = [];
+// every transcription request the mock provider received
+const transcriptions: IMockTranscriptionCall[] = [];
+
+/**
+ * Scripts the responses of an agent. The n-th call of the agent receives the n-th response.
+ * A response is either a value or a function of the completion config and the call index.
+ * JSON agents expect an object and TEXT agents a string. Every model turn of a TOOL_CALL agent consumes
+ * a response: an IMockToolCall (or an array of them) calls tools, anything else is the final answer.
+ * Returning an Error makes the call fail with that error. Errors with a retryable "status" (e.g. 429)
+ * are retried according to the retry policy, each retry consuming the next response.
+ *
+ * @param {string} agentName - The name of the agent.
+ * @param {TMockResponse[]} responses - The responses in call order.
+ */
+export const mockResponses = (agentName: string, responses: TMockResponse[]): void => {
+    scripts.set(agentName, [...(scripts.get(agentName) ?? []), ...responses]);
+}
+
+/**
+ * Responds to every call for which the matcher returns true.
+ *
+ * @param {TMockMatcher} match - Decides if the response applies to a call.
+ * @param {TMockResponse} response - The response to return.
+ */
+export const mockMatcher = (match: TMockMatcher, response: TMockResponse): void => {
+    matchers.push({ match, response });
+}
+
+/**
+ * Returns the calls the mock provider received, optionally only those of a single agent.
+ *
+ * @param {string} [agentName] - The name of the agent.
+ * @returns {IMockCall[]} - The received calls in order.
+ */
+export const getMockCalls = (agentName?: string): IMockCall[] => {
+    return agentName ? calls.filter((call) => call.config.name === agentName) : [...calls];
+}
+
+/**
+ * Returns the transcription requests the mock provider received, optionally only those of a single agent.
+ *
+ * @param {string} [agentName] - The name of the transcription agent.
+ * @returns {IMockTranscriptionCall[]} - The received transcription requests in order.
+ */
+export const getMockTranscriptions = (agentName?: string): IMockTranscriptionCall[] => {
+    return agentName ? transcriptions.filter((call) => call.config.name === agentName) : [...transcriptions];
+}
+
+/**
+ * Removes all scripted responses, matchers and recorded calls.
+ */
+export const resetMock = (): void => {
+    scripts.clear();
+    matchers.length = 0;
+    calls.length = 0;
+    transcriptions.length = 0;
+}
+
+export async function mockCompletion(completionConfig: ICompletionConfig): Promise<IMessage> {
+    const completionTypeMap: Record<EOutput, (config: ICompletionConfig) => Promise<IMessage>> = {
+        'json': structuredCompletion,
+        'text': textCompletion,
+        'tool_call': toolCompletion,
+    };
+
+    const completionType = completionTypeMap[completionConfig.outputType];
+    if (!completionType) {
+        throw new Error(`Unsupported output type: ${completionConfig.outputType}`);
+    }
+
+    return completionType(completionConfig);
+}
+
+/**
+ * Records a model call and returns its scripted response.
+ */
+const nextResponse = async (completionConfig: ICompletionConfig): Promise<any> => {
+    const index = getMockCalls(completionConfig.name).length;
+    calls.push({ config: completionConfig, index });
+
+    let response = resolveResponse(completionConfig, index);
+    if (typeof response === "function") {
+        response = await response(completionConfig, index);
+    }
+    if (response instanceof Error) {
+        throw response;
+    }
+
+    return response;
+}
+
+/**
+ * Retries failed calls like the real providers do, every retry consumes the next scripted response.
+ */
+const nextResponseWithRetry = (completionConfig: ICompletionConfig): Promise<any> => {
+    return withRetry(() => nextResponse(completionConfig), completionConfig.retryPolicy, completionConfig.signal);
+}
+
+const resolveResponse = (completionConfig: ICompletionConfig, index: number): TMockResponse => {
+    const matcher = matchers.find(({ match }) => match(completionConfig, index));
+    if (matcher) {
+        return matcher.response;
+    }
+
+    return scriptedResponse(completionConfig.name, index);
+}
+
+const scriptedResponse = (agentName: string, index: number): TMockResponse => {
+    const script = scripts.get(agentName);
+    if (!script || index >= script.length) {
+        throw new Error(`No mock response scripted for agent "${agentName}" (call ${index}).`);
+    }
+
+    return script[index];
+}
+
+/**
+ * Estimates the token usage of a call from the length of its prompt and answer.
+ */
+const mockUsage = (completionConfig: ICompletionConfig, content: string): IUsage => {
+    const prompt = [completionConfig.task, ...completionConfig.history.map((message) => JSON.stringify(message.content))].join("\n");
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(content);
+
+    return { promptTokens, completionTokens, cachedTokens: 0, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Emits the scripted content as a single token and, if it is valid JSON, as partial JSON.
+ */
+const emitContent = (completionConfig: ICompletionConfig, content: string): void => {
+    if (!completionConfig.onEvent) return;
+
+    completionConfig.onEvent({ type: "token", agent: completionConfig.name, delta: content });
+    const value = parsePartialJson(content);
+    if (value !== undefined) {
+        completionConfig.onEvent({ type: "partial_json", agent: completionConfig.name, value });
+    }
+}
+
+const structuredCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+    const response = await nextResponseWithRetry(completionConfig);
+    const content = typeof response === "string" ? response : JSON.stringify(response);
+    emitContent(completionConfig, content);
+
+    return {
+        name: completionConfig.name,
+        role: "assistant",
+        content,
+        usage: mockUsage(completionConfig, content)
+    };
+}
+
+const textCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+    const response = await nextResponseWithRetry(completionConfig);
+    const content = JSON.stringify(typeof response === "string" ? { message: response } : response);
+    emitContent(completionConfig, content);
+
+    return {
+        name: completionConfig.name,
+        role: "assistant",
+        content,
+        usage: mockUsage(completionConfig, content)
+    };
+}
+
+const isToolCall = (response: any): response is IMockToolCall => {
+    return typeof response === "object" && response !== null && typeof response.tool === "string";
+}
+
+/**
+ * Every model turn of the tool calling loop consumes one scripted response.
+ * IMockToolCall responses (or arrays of them) are executed as tool calls, anything else is the final answer.
+ */
+const toolCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
+    if (!Array.isArray(completionConfig.tools)) {
+        throw new Error(`Tools configuration is invalid for agent "${completionConfig.name}". Expected an array.`);
+    }
+
+    return runToolLoop(completionConfig, async (history): Promise<IToolTurn> => {
+        const index = getMockCalls(completionConfig.name).length;
+        const turnConfig = { ...completionConfig, history };
+        const response = await nextResponseWithRetry(turnConfig);
+        const toolCalls = (Array.isArray(response) ? response : [response]).filter(isToolCall);
+
+        if (toolCalls.length > 0) {
+            return {
+                content: null,
+                toolCalls: toolCalls.map((toolCall, position) => ({
+                    id: `mock_call_${index}_${position}`,
+                    type: "function",
+                    function: { name: toolCall.tool, arguments: JSON.stringify(toolCall.arguments ?? {}) }
+                })),
+                usage: mockUsage(turnConfig, JSON.stringify(toolCalls))
+            };
+        }
+
+        const content = typeof response === "string" ? response : JSON.stringify(response);
+        emitContent(completionConfig, content);
+        return { content, toolCalls: [], usage: mockUsage(turnConfig, content) };
+    });
+}
+
+/**
+ * Transcribes with the next scripted response of the agent. A string is the transcript,
+ * an object may also contain segments and a language. Function responses receive the transcription config.
+ */
+export async function mockTranscription(transcriptionConfig: ITranscriptionConfig): Promise<ITranscription> {
+    return withRetry(async () => {
+        const index = getMockTranscriptions(transcriptionConfig.name).length;
+        transcriptions.push({ config: transcriptionConfig, index });
+
+        let response = scriptedResponse(transcriptionConfig.name, index);
+        if (typeof response === "function") {
+            response = await response(transcriptionConfig, index);
+        }
+        if (response instanceof Error) {
+            throw response;
+        }
+
+        return typeof response === "string" ? { text: response, segments: [] } : { segments: [], ...response };
+    }, transcriptionConfig.retryPolicy, transcriptionConfig.signal);
+}
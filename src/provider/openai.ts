@@ -1,14 +1,28 @@
-import OpenAI from "openai";
-import 'dotenv/config';  // Loads environment variables from .env
+import OpenAI, { toFile } from "openai";
 import { zodResponseFormat } from "openai/helpers/zod";
-import { z } from "zod";
-import { Logger } from "../helper/logger";
-import { EOutput, ICompletionConfig, IMessage } from "../types";
+import { z, ZodSchema } from "zod";
+import { runToolLoop } from "../base/tools";
+import { toChatMessages, toChatParams } from "../helper/messages";
+import { collectChatStream } from "../helper/stream";
+import { IVerboseTranscription, readAudio, toTranscription } from "../helper/audio";
+import { NO_CLIENT_RETRIES, withRetry } from "../helper/retry";
+import { toUsage } from "../helper/usage";
+import { getClient, getProviderConfig } from "./config";
+import { EOutput, ICompletionConfig, IMessage, IProviderConfig, ITranscription, ITranscriptionConfig, IToolTurn } from "../types";
 
-const openai = new OpenAI();
-const logger = new Logger()
+/**
+ * Returns the OpenAI client for a provider configuration, created on first use.
+ *
+ * @param {IProviderConfig} [config] - The provider configuration, defaults to the global one.
+ * @returns {OpenAI} - The cached client.
+ */
+export const getOpenAIClient = (config: IProviderConfig = getProviderConfig("openai")): OpenAI => {
+  return getClient("openai", config, (clientConfig) => new OpenAI({ ...clientConfig, ...NO_CLIENT_RETRIES }));
+}
+
+const client = (config: { providerConfig?: IProviderConfig }): OpenAI => getOpenAIClient(config.providerConfig);
 
-export async function openaiCompletion(completionConfig: ICompletionConfig): Promise<IMessage | undefined> {
+export async function openaiCompletion(completionConfig: ICompletionConfig): Promise<IMessage> {
   try {
 
     const completionTypeMap: Record<EOutput, (config: ICompletionConfig) => Promise<IMessage>> = {
@@ -27,81 +41,160 @@ export async function openaiCompletion(completionConfig: ICompletionConfig): Pro
     return result
   } catch (error) {
     console.error("Error:", error);
+    throw error;
+  }
+}
+
+const toMessages = (completionConfig: ICompletionConfig, history: IMessage[] = completionConfig.history): OpenAI.ChatCompletionMessageParam[] => {
+  return toChatMessages(completionConfig.task, history) as OpenAI.ChatCompletionMessageParam[];
+}
+
+// the answer of text completions
+const textSchema = z.object({
+  message: z.string().describe("Your answer")
+});
+
+/**
+ * Validates streamed JSON against the output schema, like the parse helper does for answers which are not streamed.
+ */
+const parseStreamedOutput = (content: string, schema: ZodSchema, completionConfig: ICompletionConfig): string => {
+  const parsed = schema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Model "${completionConfig.model}" streamed output not matching the output schema of agent "${completionConfig.name}": ${parsed.error.message}`);
   }
+  return JSON.stringify(parsed.data);
 }
 
 export const structuredCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
-  const completion = await openai.beta.chat.completions.parse({
-    messages: [
-      {
-        role: "system",
-        content: completionConfig.task,
-      },
-      ...completionConfig.history
-    ],
+  const responseFormat = zodResponseFormat(completionConfig.outputSchema, "result");
+
+  if (completionConfig.onEvent) {
+    const streamed = await collectChatStream(await withRetry(() => client(completionConfig).chat.completions.create({
+      messages: toMessages(completionConfig),
+      model: completionConfig.model,
+      ...toChatParams(completionConfig.modelParams, "max_completion_tokens"),
+      stream: true,
+      stream_options: { include_usage: true },
+      tools: completionConfig.tools,
+      response_format: responseFormat,
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal), completionConfig, true);
+
+    return {
+      name: completionConfig.name,
+      role: "assistant",
+      content: parseStreamedOutput(streamed.content, completionConfig.outputSchema, completionConfig),
+      usage: streamed.usage
+    }
+  }
+
+  const completion = await withRetry(() => client(completionConfig).beta.chat.completions.parse({
+    messages: toMessages(completionConfig),
     model: completionConfig.model,
+    ...toChatParams(completionConfig.modelParams, "max_completion_tokens"),
     stream: false,
     tools: completionConfig.tools,
-    response_format: zodResponseFormat(completionConfig.outputSchema, "result"),
-  });
+    response_format: responseFormat,
+  }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
 
   return {
     name: completionConfig.name,
     role: "assistant",
-    content: JSON.stringify(completion.choices[0].message.parsed)
+    content: JSON.stringify(completion.choices[0].message.parsed),
+    usage: toUsage(completion.usage)
   }
 }
 
 export const textCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
-  const completion = await openai.beta.chat.completions.parse({
-    messages: [
-      {
-        role: "system",
-        content: completionConfig.task,
-      },
-      ...completionConfig.history
-    ],
+  const responseFormat = zodResponseFormat(textSchema, "answer");
+
+  if (completionConfig.onEvent) {
+    const streamed = await collectChatStream(await withRetry(() => client(completionConfig).chat.completions.create({
+      messages: toMessages(completionConfig),
+      model: completionConfig.model,
+      ...toChatParams(completionConfig.modelParams, "max_completion_tokens"),
+      stream: true,
+      stream_options: { include_usage: true },
+      tools: completionConfig.tools,
+      response_format: responseFormat,
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal), completionConfig, true);
+
+    return {
+      name: completionConfig.name,
+      role: "assistant",
+      content: parseStreamedOutput(streamed.content, textSchema, completionConfig),
+      usage: streamed.usage
+    }
+  }
+
+  const completion = await withRetry(() => client(completionConfig).beta.chat.completions.parse({
+    messages: toMessages(completionConfig),
     model: completionConfig.model,
+    ...toChatParams(completionConfig.modelParams, "max_completion_tokens"),
     stream: false,
     tools: completionConfig.tools,
-    response_format: zodResponseFormat(z.object({
-      message: z.string().describe("Your answer")
-    }), "answer"),
-  });
+    response_format: responseFormat,
+  }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
 
   const result = completion.choices[0].message.parsed
 
   return {
     name: completionConfig.name,
     role: "assistant",
-    content: JSON.stringify(result)
+    content: JSON.stringify(result),
+    usage: toUsage(completion.usage)
   }
 }
 
 export const toolCompletion = async (completionConfig: ICompletionConfig): Promise<IMessage> => {
-  const completion = await openai.beta.chat.completions.parse({
-    messages: [
-      {
-        role: "system",
-        content: completionConfig.task,
-      },
-      ...completionConfig.history
-    ],
-    model: completionConfig.model,
-    stream: false,
-    tools: completionConfig.tools?.map(tool => tool.functionDefinition),
-    response_format: zodResponseFormat(completionConfig.outputSchema, "result"),
-  });
+  const tools = completionConfig.tools?.map(tool => tool.functionDefinition);
+  const responseFormat = completionConfig.outputSchema
+    ? zodResponseFormat(completionConfig.outputSchema, "result")
+    : undefined;
 
-  const toolChoice = completion.choices[0].message.tool_calls[0]
+  return runToolLoop(completionConfig, async (history, final): Promise<IToolTurn> => {
+    const request: Omit<OpenAI.ChatCompletionCreateParamsNonStreaming, "stream"> = {
+      messages: toMessages(completionConfig, history),
+      model: completionConfig.model,
+      ...toChatParams(completionConfig.modelParams, "max_completion_tokens"),
+      tools,
+      tool_choice: final ? "none" : "auto",
+      response_format: responseFormat,
+    };
 
-  const tool = completionConfig.tools?.find(tool => tool.name === toolChoice.function.name)
-  logger.tool(tool.name)
-  const result = tool.fn(toolChoice.function.parsed_arguments)
+    if (completionConfig.onEvent) {
+      const streamed = await collectChatStream(await withRetry(() => client(completionConfig).chat.completions.create({
+        ...request,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal), completionConfig, false);
 
-  return {
-    name: completionConfig.name,
-    role: "system",
-    content: JSON.stringify(result),
-  }
-}
\ No newline at end of file
+      return streamed;
+    }
+
+    const completion = await withRetry(() => client(completionConfig).chat.completions.create({
+      ...request,
+      stream: false,
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
+
+    return {
+      content: completion.choices[0].message.content,
+      toolCalls: completion.choices[0].message.tool_calls ?? [],
+      usage: toUsage(completion.usage)
+    };
+  });
+}
+
+/**
+ * Transcribes audio with a whisper model. Verbose responses contain the segments and the detected language.
+ */
+export async function openaiTranscription(transcriptionConfig: ITranscriptionConfig): Promise<ITranscription> {
+  const transcription = await withRetry(async () => client(transcriptionConfig).audio.transcriptions.create({
+    file: await readAudio(transcriptionConfig.audio, (data, name) => toFile(data, name)),
+    model: transcriptionConfig.model,
+    language: transcriptionConfig.language,
+    prompt: transcriptionConfig.prompt,
+    response_format: "verbose_json",
+  }, { signal: transcriptionConfig.signal }), transcriptionConfig.retryPolicy, transcriptionConfig.signal);
+
+  return toTranscription(transcription as IVerboseTranscription);
+}
@@ -0,0 +1,213 @@
+import OpenAI, { APIError, BadRequestError, UnprocessableEntityError } from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { ZodSchema } from "zod";
+import { runToolLoop } from "../base/tools";
+import { promptAndValidate } from "../helper/json";
+import { addUsage, emptyUsage, toUsage } from "../helper/usage";
+import { toChatMessages, toChatParams, toToolSystemPrompt } from "../helper/messages";
+import { NO_CLIENT_RETRIES, withRetry } from "../helper/retry";
+import { getClient } from "./config";
+import { registerProvider } from "./registry";
+import { EOutput, ICompletionConfig, IMessage, IOpenAICompatibleConfig, IOpenAICompatibleModel, IProvider, IToolTurn } from "../types";
+
+const DEFAULT_PROVIDER_NAME = "openai-compatible";
+
+interface IEndpoint {
+  name: string,
+  config: IOpenAICompatibleConfig,
+  // models which rejected a json_schema response_format at run time
+  jsonSchemaRejected: Set<string>
+}
+
+/**
+ * Registers a provider for an OpenAI compatible endpoint like Ollama, vLLM or a llama.cpp server.
+ * Agents then use it with models like "openai-compatible/llama3.1".
+ * Provider configurations under its name, e.g. of configureProviders or of an invocation, override the key and URL.
+ *
+ * @param {IOpenAICompatibleConfig} config - The configuration of the endpoint.
+ * @param {string} [config.name] - The provider prefix, defaults to "openai-compatible".
+ * @param {string} config.baseURL - The base URL of the endpoint, e.g. "http://localhost:11434/v1".
+ * @param {string} [config.apiKey] - The API key, if the endpoint requires one.
+ * @param {Record<string, IOpenAICompatibleModel>} [config.models] - Capability flags per model.
+ * @param {number} [config.validationRetries] - Correction rounds when falling back to prompt-and-validate.
+ * @returns {IProvider} - The registered provider.
+ */
+export const registerOpenAICompatibleProvider = (config: IOpenAICompatibleConfig): IProvider => {
+  if (!config.baseURL) {
+    throw new Error(`OpenAI compatible provider "${config.name ?? DEFAULT_PROVIDER_NAME}" requires a baseURL.`);
+  }
+
+  const endpoint: IEndpoint = {
+    name: config.name ?? DEFAULT_PROVIDER_NAME,
+    config,
+    jsonSchemaRejected: new Set<string>()
+  };
+
+  return registerProvider(endpoint.name, (completionConfig) => openaiCompatibleCompletion(endpoint, completionConfig));
+}
+
+/**
+ * Returns the client of the endpoint for the provider configuration of the request, e.g. the key of a tenant.
+ */
+const client = (endpoint: IEndpoint, completionConfig: ICompletionConfig): OpenAI => {
+  // Local servers usually ignore the key, but the client requires one
+  const config = { baseURL: endpoint.config.baseURL, apiKey: endpoint.config.apiKey ?? "not-needed", ...completionConfig.providerConfig };
+  return getClient(endpoint.name, config, (clientConfig) => new OpenAI({ ...clientConfig, ...NO_CLIENT_RETRIES }));
+}
+
+async function openaiCompatibleCompletion(endpoint: IEndpoint, completionConfig: ICompletionConfig): Promise<IMessage> {
+  try {
+    const completionTypeMap: Record<EOutput, (endpoint: IEndpoint, config: ICompletionConfig) => Promise<IMessage>> = {
+      'json': structuredCompletion,
+      'text': textCompletion,
+      'tool_call': toolCompletion,
+    };
+
+    const completionType = completionTypeMap[completionConfig.outputType];
+    if (!completionType) {
+      throw new Error(`Unsupported output type: ${completionConfig.outputType}`);
+    }
+
+    const result = await completionType(endpoint, completionConfig);
+    return result;
+  } catch (error) {
+    console.error("Error:", error);
+    throw error;
+  }
+}
+
+const getCapabilities = (endpoint: IEndpoint, model: string): IOpenAICompatibleModel => {
+  const capabilities: IOpenAICompatibleModel = {
+    jsonSchema: true,
+    jsonObject: false,
+    tools: true,
+    ...endpoint.config.models?.[model],
+  };
+
+  if (endpoint.jsonSchemaRejected.has(model)) {
+    capabilities.jsonSchema = false;
+  }
+
+  return capabilities;
+}
+
+const toMessages = (system: string, history: IMessage[]): OpenAI.ChatCompletionMessageParam[] => {
+  return toChatMessages(system, history) as OpenAI.ChatCompletionMessageParam[];
+}
+
+/**
+ * Asks for JSON in the prompt and validates the answer against the schema, with a json_object
+ * response format if the model supports it.
+ */
+const validatedJsonCompletion = async (endpoint: IEndpoint, completionConfig: ICompletionConfig, schema: ZodSchema): Promise<IMessage> => {
+  const capabilities = getCapabilities(endpoint, completionConfig.model);
+
+  return promptAndValidate(completionConfig, schema, async (system, history) => {
+    const completion = await withRetry(() => client(endpoint, completionConfig).chat.completions.create({
+      messages: toMessages(system, history),
+      model: completionConfig.model,
+      ...toChatParams(completionConfig.modelParams),
+      stream: false,
+      ...(capabilities.jsonObject ? { response_format: { type: "json_object" as const } } : {}),
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
+
+    return { content: completion.choices[0].message.content ?? "", usage: toUsage(completion.usage) };
+  }, endpoint.config.validationRetries);
+}
+
+const isResponseFormatRejection = (error: unknown): boolean => {
+  return error instanceof BadRequestError || error instanceof UnprocessableEntityError;
+}
+
+export const structuredCompletion = async (endpoint: IEndpoint, completionConfig: ICompletionConfig): Promise<IMessage> => {
+  const capabilities = getCapabilities(endpoint, completionConfig.model);
+  let usage = emptyUsage();
+
+  if (capabilities.jsonSchema) {
+    try {
+      const completion = await withRetry(() => client(endpoint, completionConfig).beta.chat.completions.parse({
+        messages: toMessages(completionConfig.task, completionConfig.history),
+        model: completionConfig.model,
+        ...toChatParams(completionConfig.modelParams),
+        stream: false,
+        response_format: zodResponseFormat(completionConfig.outputSchema, "result"),
+      }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
+
+      usage = toUsage(completion.usage) ?? usage;
+      const parsed = completionConfig.outputSchema.safeParse(completion.choices[0].message.parsed);
+      if (parsed.success) {
+        return {
+          name: completionConfig.name,
+          role: "assistant",
+          content: JSON.stringify(parsed.data),
+          usage
+        };
+      }
+      console.warn(`Model "${completionConfig.model}" returned invalid structured output. Falling back to prompt-and-validate.`);
+    } catch (error) {
+      if (isResponseFormatRejection(error)) {
+        console.warn(`Model "${completionConfig.model}" does not support json_schema response formats. Falling back to prompt-and-validate.`);
+        endpoint.jsonSchemaRejected.add(completionConfig.model);
+      } else if (error instanceof APIError) {
+        throw error;
+      } else {
+        console.warn(`Model "${completionConfig.model}" returned unparsable structured output. Falling back to prompt-and-validate.`);
+      }
+    }
+  }
+
+  const result = await validatedJsonCompletion(endpoint, completionConfig, completionConfig.outputSchema);
+
+  // the usage of a rejected structured output attempt is added to the answer
+  return { ...result, usage: addUsage(usage, result.usage ?? emptyUsage()) };
+}
+
+export const textCompletion = async (endpoint: IEndpoint, completionConfig: ICompletionConfig): Promise<IMessage> => {
+  const completion = await withRetry(() => client(endpoint, completionConfig).chat.completions.create({
+    messages: toMessages(completionConfig.task, completionConfig.history),
+    model: completionConfig.model,
+    ...toChatParams(completionConfig.modelParams),
+    stream: false,
+  }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
+
+  // Keep the same result shape as the other providers' text completions
+  const result = { message: completion.choices[0].message.content ?? "" };
+
+  return {
+    name: completionConfig.name,
+    role: "assistant",
+    content: JSON.stringify(result),
+    usage: toUsage(completion.usage)
+  };
+}
+
+export const toolCompletion = async (endpoint: IEndpoint, completionConfig: ICompletionConfig): Promise<IMessage> => {
+
+  if (!Array.isArray(completionConfig.tools)) {
+    throw new Error(`Tools configuration is invalid for agent "${completionConfig.name}". Expected an array.`);
+  }
+
+  if (!getCapabilities(endpoint, completionConfig.model).tools) {
+    throw new Error(`Model "${completionConfig.model}" does not support tool calls. Please check the capability flags of your endpoint.`);
+  }
+
+  const system = toToolSystemPrompt(completionConfig.task, completionConfig.outputSchema);
+  const tools = completionConfig.tools.map(tool => tool.functionDefinition);
+
+  return runToolLoop(completionConfig, async (history, final): Promise<IToolTurn> => {
+    const completion = await withRetry(() => client(endpoint, completionConfig).chat.completions.create({
+      messages: toMessages(system, history),
+      model: completionConfig.model,
+      ...toChatParams(completionConfig.modelParams),
+      stream: false,
+      tools,
+      tool_choice: final ? "none" : "auto",
+    }, { signal: completionConfig.signal }), completionConfig.retryPolicy, completionConfig.signal);
+
+    return {
+      content: completion.choices[0].message.content,
+      toolCalls: completion.choices[0].message.tool_calls ?? [],
+      usage: toUsage(completion.usage)
+    };
+  });
+}
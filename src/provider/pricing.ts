@@ -0,0 +1,64 @@
+import { EModels, IModelPricing, IUsage, TModels } from "../types";
+
+// USD per million tokens. Prices change, so treat costs computed from this table as estimates.
+// Audio models like whisper are billed per audio hour and are not listed.
+const pricing = new Map<TModels, IModelPricing>([
+  [EModels.gpt_4o, { input: 2.5, cachedInput: 1.25, output: 10 }],
+  [EModels.chatgpt_4o_latest, { input: 5, output: 15 }],
+  [EModels.gpt_4o_mini, { input: 0.15, cachedInput: 0.075, output: 0.6 }],
+  [EModels.o1, { input: 15, cachedInput: 7.5, output: 60 }],
+  [EModels.o1_mini, { input: 3, cachedInput: 1.5, output: 12 }],
+  [EModels.gpt_3_5_turbo, { input: 0.5, output: 1.5 }],
+  [EModels.gpt_3_5_turbo_0125, { input: 0.5, output: 1.5 }],
+  [EModels.gpt_3_5_turbo_1106, { input: 1, output: 2 }],
+  [EModels.gpt_3_5_turbo_instruct, { input: 1.5, output: 2 }],
+  [EModels.gemma_2_9b_it, { input: 0.2, output: 0.2 }],
+  [EModels.llama_3_3_70b_versatile, { input: 0.59, output: 0.79 }],
+  [EModels.llama_3_1_8b_instasnt, { input: 0.05, output: 0.08 }],
+  [EModels.llama_guard_3_8b, { input: 0.2, output: 0.2 }],
+  [EModels.llama_3_70b_8192, { input: 0.59, output: 0.79 }],
+  [EModels.llama_3_8b_8192, { input: 0.05, output: 0.08 }],
+  [EModels.mixtral_8x7b_32768, { input: 0.24, output: 0.24 }],
+  [EModels.claude_3_5_sonnet, { input: 3, cachedInput: 0.3, output: 15 }],
+  [EModels.claude_3_5_haiku, { input: 0.8, cachedInput: 0.08, output: 4 }],
+  [EModels.claude_3_opus, { input: 15, cachedInput: 1.5, output: 75 }],
+  [EModels.claude_3_haiku, { input: 0.25, cachedInput: 0.03, output: 1.25 }],
+]);
+
+/**
+ * Sets the pricing of a model, e.g. for models of custom providers or negotiated prices.
+ *
+ * @param {TModels} model - The model in "provider/model" format.
+ * @param {IModelPricing} modelPricing - The prices in USD per million tokens.
+ */
+export const registerModelPricing = (model: TModels, modelPricing: IModelPricing): void => {
+  pricing.set(model, modelPricing);
+}
+
+/**
+ * Returns the pricing of a model, or undefined if it is unknown.
+ *
+ * @param {TModels} model - The model in "provider/model" format.
+ * @returns {IModelPricing | undefined} - The prices in USD per million tokens.
+ */
+export const getModelPricing = (model: TModels): IModelPricing | undefined => {
+  return pricing.get(model);
+}
+
+/**
+ * Estimates the cost of a model call in USD. Calls of models without pricing cost 0.
+ * Cached prompt tokens are billed at the cached input price, if the model has one.
+ *
+ * @param {TModels | undefined} model - The model in "provider/model" format.
+ * @param {IUsage} usage - The token usage of the call.
+ * @returns {number} - The estimated cost in USD.
+ */
+export const estimateCost = (model: TModels | undefined, usage: IUsage): number => {
+  const modelPricing = model ? pricing.get(model) : undefined;
+  if (!modelPricing) return 0;
+
+  const cachedInput = modelPricing.cachedInput ?? modelPricing.input;
+  const uncachedTokens = usage.promptTokens - usage.cachedTokens;
+
+  return (uncachedTokens * modelPricing.input + usage.cachedTokens * cachedInput + usage.completionTokens * modelPricing.output) / 1_000_000;
+}
@@ -0,0 +1,90 @@
+import { openaiCompletion, openaiTranscription } from "./openai";
+import { groqCompletion, groqTranscription } from "./groq";
+import { anthropicCompletion } from "./anthropic";
+import { mockCompletion, mockTranscription } from "./mock";
+import { IProvider, IProviderModelSplit, IProviderOptions, TModels, TProviderCompletion } from "../types";
+
+const providers = new Map<string, IProvider>();
+
+/**
+ * Registers a model provider under the given name.
+ * Agents resolve the provider by the prefix of their model, e.g. "my-gateway/gpt-4o".
+ * Registering an already existing name replaces the previous provider.
+ * The completion function receives the resolved retry policy in its config and should wrap its requests with withRetry.
+ *
+ * @param {string} name - The provider prefix used in model strings.
+ * @param {TProviderCompletion} completionFn - The completion function of the provider.
+ * @param {IProviderOptions} [options] - The options of the provider, e.g. its retry policy or transcription function.
+ * @returns {IProvider} - The registered provider.
+ */
+export const registerProvider = (name: string, completionFn: TProviderCompletion, options: IProviderOptions = {}): IProvider => {
+    if (!name || name.includes("/")) {
+        throw new Error(`Invalid provider name: "${name}". Provider names must be non-empty and must not contain "/".`);
+    }
+    if (typeof completionFn !== "function") {
+        throw new Error(`Invalid completion function provided for provider "${name}".`);
+    }
+
+    const provider: IProvider = { name, completion: completionFn, transcription: options.transcription, retryPolicy: options.retryPolicy };
+    providers.set(name, provider);
+    return provider;
+}
+
+/**
+ * Removes a registered model provider.
+ *
+ * @param {string} name - The provider prefix used in model strings.
+ * @returns {boolean} - True if a provider was removed.
+ */
+export const unregisterProvider = (name: string): boolean => {
+    return providers.delete(name);
+}
+
+/**
+ * Returns the provider registered under the given name, or undefined.
+ *
+ * @param {string} name - The provider prefix used in model strings.
+ * @returns {IProvider | undefined} - The registered provider.
+ */
+export const getProvider = (name: string): IProvider | undefined => {
+    return providers.get(name);
+}
+
+/**
+ * Returns the names of all registered providers.
+ *
+ * @returns {string[]} - The registered provider names.
+ */
+export const getProviderNames = (): string[] => {
+    return [...providers.keys()];
+}
+
+/**
+ * Splits a model like "openai/gpt-4o" into its registered provider and the model name.
+ * The provider is the prefix up to the first "/", the model may contain further slashes.
+ *
+ * @param {TModels} providerModel - The model in "provider/model" format.
+ * @returns {IProviderModelSplit} - The provider and model.
+ */
+export const splitProviderModel = (providerModel: TModels): IProviderModelSplit => {
+    const regex = /^(.*?)\//;
+    const match = providerModel.match(regex);
+    if (!match || !match[1]) {
+        throw new Error(`Invalid provider/model format: "${providerModel}". Expected format "provider/model".`);
+    }
+
+    const provider = match[1];
+    const model = providerModel.slice(provider.length + 1);
+
+    if (!getProvider(provider)) {
+        throw new Error(`Unsupported provider: "${provider}". Supported providers are: ${getProviderNames().join(", ")}.`);
+    }
+
+    return { provider, model };
+}
+
+// Built-in providers
+registerProvider("openai", openaiCompletion, { transcription: openaiTranscription });
+registerProvider("groq", groqCompletion, { transcription: groqTranscription });
+registerProvider("anthropic", anthropicCompletion);
+registerProvider("mock", mockCompletion, { transcription: mockTranscription });
@@ -2,13 +2,14 @@
 // Basic interfaces for agent instantiation
 // ====================================
 
-import { ZodSchema } from "zod";
+import { z, ZodSchema, ZodType } from "zod";
 import { State } from "./base/state";
 import { Agent } from "./base/agent";
 import { Team } from "./architectures/team";
 import { Pipe } from "./architectures/pipe";
 import { Graph } from "./base/graph";
 import { Vote } from "./architectures/vote";
+import { TranscriptionAgent } from "./base/transcription";
 
 export enum EModels {
   gpt_4o = "openai/gpt-4o",
@@ -30,6 +31,11 @@ export enum EModels {
   mixtral_8x7b_32768 = "groq/mixtral-8x7b-32768",
   whisper_large_v3 = "groq/whisper-large-v3",
   whisper_large_v3_turbo = "groq/whisper-large-v3-turbo",
+  whisper_1 = "openai/whisper-1",
+  claude_3_5_sonnet = "anthropic/claude-3-5-sonnet-latest",
+  claude_3_5_haiku = "anthropic/claude-3-5-haiku-latest",
+  claude_3_opus = "anthropic/claude-3-opus-latest",
+  claude_3_haiku = "anthropic/claude-3-haiku-20240307",
 }
 
 export type TModels = EModels | string
@@ -40,16 +46,34 @@ export enum EOutput {
   TOOL = "tool_call"
 }
 
-export interface IAgent {
-  model: TModels;
+// TState is the shape of the invocations' state, TOutput the output of the agent, inferred from its outputSchema
+export interface IAgent<TState extends Record<string, any> = any, TOutput = any> {
+  model: TModels | TModels[]; // a list is a fallback chain, tried in order
   retries: number;
   name: string;
   description: string;
-  task: string;
+  task: string | ITemplate<TState>; // a template is rendered with the state and the user task of every invocation
+  banner?: string | false; // the reminder between the agent's task and the user task, false removes it
   tools?: any[];
+  maxToolIterations?: number; // the maximum number of tool calling rounds of a TOOL_CALL agent
   outputType: EOutput;
-  lifecycle: ILifecycle;
-  outputSchema?: ZodSchema
+  lifecycle: ILifecycle<NoInfer<TState>>; // typed by the state, which is not inferred from it
+  outputSchema?: ZodType<TOutput, any, any>
+  retryPolicy?: Partial<IRetryPolicy> // overrides the provider's retry policy for failed requests
+  modelParams?: IModelParams // sampling parameters forwarded to the provider
+  providerConfig?: TProviderConfigs // overrides the global provider configurations, e.g. API keys
+  historyStrategy?: THistoryStrategy // shortens the history sent to the model, defaults to a sliding window over the context length
+  timeoutMs?: number // cancels invocations of the agent which take longer, including all retries
+  memory?: boolean // carries the history over to later invocations, off by default. Sessions keep their own history instead
+}
+
+// sampling parameters, mapped by each provider onto its API. Unset parameters use the provider's defaults
+export interface IModelParams {
+  temperature?: number
+  maxTokens?: number // the maximum number of generated tokens
+  seed?: number // for deterministic sampling, not supported by Anthropic
+  topP?: number
+  stop?: string | string[] // sequences which end the generation
 }
 
 export interface IAgentFactoryOutputProperty {
@@ -70,15 +94,47 @@ export interface IAgentFactory {
 // Basic interfaces for agent com
 // ====================================
 
-export interface IInvocation {
-  state: any,
+// options of an invocation, forwarded by graphs and architectures to their workers
+export interface IInvocationOptions {
+  onEvent?: TStreamListener // receives the events of a streamed invocation
+  modelParams?: IModelParams // overrides the sampling parameters of every agent of the invocation
+  providerConfig?: TProviderConfigs // overrides the provider configurations of every agent, e.g. per tenant
+  attachments?: TContentPart[] // images or files sent along with the task to every agent
+  audio?: IAudioInput // the audio transcribed by TranscriptionAgents
+  cache?: boolean // false bypasses the response cache, see useResponseCache
+  signal?: AbortSignal // cancels the invocation, which rejects with a CancellationError
+  history?: IMessage[] // the earlier conversation, e.g. of a session, seen by every agent
+}
+
+export interface IInvocation<TState extends Record<string, any> = any> extends IInvocationOptions {
+  state: State<TState>,
   task: string
 }
 
 export interface IMessage {
   name: string // THE NAME OF THE SENDER. RELEVANT FOR SUPERVISOR AGENTS
-  role: "user" | "system" | "assistant"
-  content: any,
+  role: "user" | "system" | "assistant" | "tool"
+  content: any, // a string, or TContentPart[] for multimodal messages
+  tool_calls?: IToolCall[] // the tool calls of an assistant message
+  tool_call_id?: string // the tool call a tool message responds to
+  model?: string // the "provider/model" which produced an assistant answer
+  usage?: IUsage // the token usage of the model call which produced an assistant message
+  cached?: boolean // answered from the response cache, its usage is not counted again
+  failed?: boolean // a message of a model which failed over to the next one, only kept for its usage
+}
+
+// a tool call requested by the model, in the OpenAI wire format
+export interface IToolCall {
+  id: string,
+  type: "function",
+  function: { name: string, arguments: string }
+}
+
+// a single model turn inside the tool calling loop of a TOOL_CALL agent
+export interface IToolTurn {
+  content: string | null,
+  toolCalls: IToolCall[]
+  usage?: IUsage // the token usage of the turn's model call
 }
 
 // ====================================
@@ -89,6 +145,11 @@ export interface IMessage {
 export interface ICompletionInput {
   task: string
   history: IMessage[]
+  onEvent?: TStreamListener // if set, providers stream their output as events
+  modelParams?: IModelParams
+  cache?: boolean // false bypasses the response cache
+  signal?: AbortSignal // passed to the provider's requests and the tools
+  onUsage?: (usage: IUsageReport) => void // receives the usage of model calls besides the answer, e.g. of history summaries
 }
 
 // needed for api calling of model providers
@@ -97,8 +158,67 @@ export interface ICompletionConfig extends ICompletionInput {
   outputType: EOutput,
   outputSchema: any,
   tools: any[] | undefined,
+  maxToolIterations?: number,
   name: string,
-  lifecycle: ILifecycle
+  lifecycle: ILifecycle,
+  onMessage?: (message: IMessage) => void // receives intermediate messages like tool calls and tool results
+  retryPolicy?: Partial<IRetryPolicy> // used by providers to retry failed requests, see withRetry
+  providerConfig?: IProviderConfig // the resolved configuration of the provider, see getClient
+}
+
+// the function every model provider has to implement
+export type TProviderCompletion = (completionConfig: ICompletionConfig) => Promise<IMessage | undefined>
+
+// a registered model provider, resolved by the "provider/model" prefix
+export interface IProvider {
+  name: string
+  completion: TProviderCompletion
+  transcription?: TProviderTranscription // only providers of speech-to-text models implement it
+  retryPolicy?: Partial<IRetryPolicy>
+}
+
+// credentials and connection settings of a provider. Unset fields fall back to the SDK's environment variables
+export interface IProviderConfig {
+  apiKey?: string
+  baseURL?: string
+  organization?: string // OpenAI only
+  project?: string // OpenAI only
+  timeout?: number // request timeout in milliseconds
+  defaultHeaders?: Record<string, string>
+}
+
+// provider configurations, keyed by provider name like "openai"
+export type TProviderConfigs = Record<string, IProviderConfig>
+
+// options of a registered model provider
+export interface IProviderOptions {
+  retryPolicy?: Partial<IRetryPolicy> // overrides the default retry policy for all agents using the provider
+  transcription?: TProviderTranscription // transcribes audio for TranscriptionAgents
+}
+
+// transport level retries of failed provider requests (rate limits, server errors, timeouts)
+export interface IRetryPolicy {
+  maxRetries: number // retries after the first attempt
+  initialDelayMs: number // the backoff before the first retry
+  maxDelayMs: number // the upper bound of the backoff
+  factor: number // the backoff grows by this factor per retry
+  jitter: boolean // randomizes the backoff between half and full length
+}
+
+// capability flags of a model served by an OpenAI compatible endpoint
+export interface IOpenAICompatibleModel {
+  jsonSchema?: boolean, // supports response_format of type "json_schema"
+  jsonObject?: boolean, // supports response_format of type "json_object"
+  tools?: boolean
+}
+
+// configuration of an OpenAI compatible endpoint like Ollama, vLLM or a llama.cpp server
+export interface IOpenAICompatibleConfig {
+  name?: string, // the provider prefix, defaults to "openai-compatible"
+  baseURL: string,
+  apiKey?: string,
+  models?: Record<string, IOpenAICompatibleModel>,
+  validationRetries?: number // correction rounds when falling back to prompt-and-validate
 }
 
 // needed to return the result after a evaluation step
@@ -111,11 +231,137 @@ export interface ICompletionResult {
 // Used as output interface for architectures and agents
 // ====================================
 
-export interface IResult {
+export interface IResult<TState extends Record<string, any> = any, TOutput = any> {
   history: IMessage[],
-  state: any
+  state: State<TState>
+  output?: TOutput // the parsed answer of the agent, for graphs and architectures of the last agent invoked
+  usage?: IUsageReport // the token usage and estimated cost of the invocation
+}
+
+// the result of an agent, which always has an output
+export interface IAgentResult<TState extends Record<string, any> = any, TOutput = any> extends IResult<TState, TOutput> {
+  output: TOutput
 }
 
+// ====================================
+// Used for multimodal message content
+// ====================================
+
+export interface ITextPart {
+  type: "text"
+  text: string
+}
+
+// an image by URL (http(s) or data URL) or by base64 data
+export interface IImagePart {
+  type: "image"
+  url?: string
+  data?: string // base64, requires the mimeType
+  mimeType?: string // e.g. "image/png"
+  detail?: "low" | "high" | "auto" // the resolution used by OpenAI
+}
+
+// a document like a PDF, by base64 data or by the id of a file uploaded to the provider
+export interface IFilePart {
+  type: "file"
+  data?: string // base64, requires the mimeType
+  fileId?: string
+  mimeType?: string // e.g. "application/pdf"
+  name?: string
+}
+
+export type TContentPart = ITextPart | IImagePart | IFilePart
+
+// ====================================
+// Used for speech-to-text
+// ====================================
+
+// an audio file by path or as a buffer. Buffers need a file name, its extension tells the audio format
+export interface IAudioInput {
+  path?: string
+  data?: Buffer
+  name?: string // e.g. "voice-note.m4a"
+}
+
+export interface ITranscriptionAgent {
+  name: string
+  description: string
+  model: TModels // a speech-to-text model like EModels.whisper_large_v3
+  language?: string // the ISO-639-1 language of the audio, detected if omitted
+  prompt?: string // guides the spelling and style of the transcript
+  retryPolicy?: Partial<IRetryPolicy>
+  providerConfig?: TProviderConfigs
+  lifecycle: ILifecycle // the result content holds the text, segments and language
+}
+
+// needed for api calling of speech-to-text providers
+export interface ITranscriptionConfig {
+  name: string
+  model: string
+  audio: IAudioInput
+  language?: string
+  prompt?: string
+  retryPolicy?: Partial<IRetryPolicy>
+  providerConfig?: IProviderConfig
+  signal?: AbortSignal
+}
+
+export interface ITranscriptionSegment {
+  start: number // in seconds
+  end: number // in seconds
+  text: string
+}
+
+export interface ITranscription {
+  text: string
+  segments: ITranscriptionSegment[]
+  language?: string
+}
+
+// the function every speech-to-text provider has to implement
+export type TProviderTranscription = (transcriptionConfig: ITranscriptionConfig) => Promise<ITranscription>
+
+// ====================================
+// Used for usage and cost accounting
+// ====================================
+
+// the token usage of model calls. promptTokens include the cachedTokens
+export interface IUsage {
+  promptTokens: number
+  completionTokens: number
+  cachedTokens: number
+  totalTokens: number
+  cost?: number // estimated cost in USD, see estimateCost
+}
+
+// the usage of an invocation. byNode also contains the nodes of nested graphs and architectures
+export interface IUsageReport {
+  total: IUsage
+  byAgent: Record<string, IUsage>
+  byNode: Record<string, IUsage>
+}
+
+// prices of a model in USD per million tokens
+export interface IModelPricing {
+  input: number
+  output: number
+  cachedInput?: number // defaults to the input price
+}
+
+// ====================================
+// Used for streaming
+// ====================================
+
+export type TStreamEvent =
+  | { type: "token", agent: string, delta: string }
+  | { type: "partial_json", agent: string, value: any }
+  | { type: "tool_call_start", agent: string, tool: string, arguments: any }
+  | { type: "tool_call_end", agent: string, tool: string, result: any }
+  | { type: "evaluation", agent: string, result: IActionResult }
+  | { type: "result", result: IResult }
+
+export type TStreamListener = (event: TStreamEvent) => void
+
 // ====================================
 // Used for evaluation functions
 // ====================================
@@ -126,23 +372,34 @@ export interface IActionResult {
   reason: string
 }
 
+// the context of a result evaluation, for evaluations which call a model themselves
+export interface IEvaluationContext {
+  agent: string,
+  resolveProviderConfig: (provider: string) => IProviderConfig // the configuration of a provider for the agent and invocation
+  signal?: AbortSignal
+}
+
 // definition of the evaluation function 
 export interface IEvaluationFunction {
-  run: (state: any) => IActionResult | Promise<IActionResult>
+  run: (state: any, context?: IEvaluationContext) => IActionResult | Promise<IActionResult>
 }
 
-export interface IStateManipulationFunction {
-  run: (result: any, state: State<any>) => IActionResult;
+export interface IStateManipulationFunction<TState extends Record<string, any> = any> {
+  run: (result: any, state: State<TState>) => IActionResult;
 }
 
+// the paths of set and push: a state path, or a result path and the state path it is written to
+export type TManipulationPaths<TState> = [path: TPath<TState>] | [from: string, to: TPath<TState>]
+
 export interface IArchitecture {
   _type?: string
   name: string,
   description: string
+  timeoutMs?: number // cancels invocations which take longer
 }
 
 export interface ISupervisor extends IArchitecture {
-  model: TModels
+  model: TModels | TModels[]
   workers: TWorker[]
 }
 
@@ -162,10 +419,13 @@ export interface IVote extends IArchitecture {
   synthesizer: Agent
 }
 
-export type TWorker = Agent | Team | Pipe | Graph | Vote
+export type TWorker = Agent | Team | Pipe | Graph | Vote | TranscriptionAgent
+
+// the messages of every worker visited in one graph run, seen again when the worker is re-entered
+export type TRunHistory = Map<TWorker, IMessage[]>
 
-export interface IGraphInvocation {
-  state: any;
+export interface IGraphInvocation<TState extends Record<string, any> = any> extends IInvocationOptions {
+  state: State<TState>;
   task: string;
   startNode?: TWorker | "START";
 }
@@ -205,30 +465,39 @@ export interface IEvaluation extends IAction {
   is: boolean
 }
 
-export interface ILifecycle {
+export interface ILifecycle<TState extends Record<string, any> = any> {
   beforeRun?: {
-    stateManipulations?: any[],
+    stateManipulations?: IStateManipulationFunction<TState>[],
     promptInjections?: any[]
   },
   afterRun: {
-    stateManipulations: any[],
+    stateManipulations: IStateManipulationFunction<TState>[],
     resultEvaluations?: any[]
     stateEvaluations?: any[]
     stopConditions?: any[]
   }
 }
 
-export interface ITool {
+export interface ITool<T extends ZodSchema = ZodSchema> {
   name: string,
   functionDefinition: any,
-  fn: (...args: any) => any
+  schema: T, // validates the arguments chosen by the model before fn is called
+  fn: (args: z.infer<T>, context: IToolContext) => any
+  concurrent?: boolean // false for non-reentrant tools, which are never called concurrently
 }
 
-export interface ICustomToolConfig {
+export interface ICustomToolConfig<T extends ZodSchema = ZodSchema> {
   name: string,
   description: string,
-  schema: ZodSchema,
-  fn: (...args: any) => any
+  schema: T,
+  fn: (args: z.infer<T>, context: IToolContext) => any
+  concurrent?: boolean
+}
+
+// passed to tool functions along with their arguments
+export interface IToolContext {
+  agent: string, // the name of the calling agent
+  signal?: AbortSignal // aborts when the invocation is cancelled, e.g. to cancel fetch requests
 }
 
 export interface IFuncionDefinition {
@@ -246,4 +515,187 @@ export interface ILogger {
 export interface IProviderModelSplit {
   provider: string;
   model: string;
-}
\ No newline at end of file
+}
+
+// ====================================
+// Used for the mock provider
+// ====================================
+
+// a scripted tool call of a mocked TOOL_CALL agent, executed with the agent's real tools
+export interface IMockToolCall {
+  tool: string,
+  arguments: any
+}
+
+// a scripted response, or a function computing it from the request and the call index of the agent
+export type TMockResponse = any | ((completionConfig: ICompletionConfig, index: number) => any)
+
+export type TMockMatcher = (completionConfig: ICompletionConfig, index: number) => boolean
+
+// a request received by the mock provider
+export interface IMockCall {
+  config: ICompletionConfig,
+  index: number
+}
+
+// a transcription request received by the mock provider
+export interface IMockTranscriptionCall {
+  config: ITranscriptionConfig,
+  index: number
+}
+
+// ====================================
+// Used for record/replay cassettes
+// ====================================
+
+export type TCassetteMode = "record" | "replay"
+
+export interface ICassetteConfig {
+  path: string,
+  mode: TCassetteMode
+}
+
+// a recorded provider call, keyed by the hash of its request
+export interface ICassetteInteraction {
+  request: any,
+  response: IMessage
+  messages?: IMessage[] // the intermediate messages of a TOOL_CALL response, e.g. tool calls and tool results
+}
+
+export interface ICassette {
+  version: number,
+  interactions: Record<string, ICassetteInteraction>
+}
+
+// ====================================
+// Used for the response cache
+// ====================================
+
+export interface ICacheEntry {
+  request: any,
+  response: IMessage,
+  messages?: IMessage[], // the intermediate messages of a TOOL_CALL response, e.g. tool calls and tool results
+  createdAt: number // epoch milliseconds, compared with the TTL
+}
+
+export interface ICacheStore {
+  get: (key: string) => Promise<ICacheEntry | undefined>,
+  set: (key: string, entry: ICacheEntry) => Promise<void>,
+  delete: (key: string) => Promise<void>,
+  clear: () => Promise<void>
+}
+
+export interface IResponseCacheConfig {
+  store: ICacheStore,
+  ttlMs?: number
+}
+
+// ====================================
+// Used for model capabilities and context-window management
+// ====================================
+
+export interface IModelCapabilities {
+  contextLength: number, // in tokens, shared by the prompt and the answer
+  chat: boolean, // chat completions, false for speech-to-text and legacy completion models
+  tools: boolean,
+  jsonSchema: boolean, // structured outputs following a JSON schema
+  vision: boolean, // image inputs
+  audio: boolean, // audio transcriptions
+  streaming: boolean
+}
+
+export interface IHistoryContext {
+  agent: string,
+  model: TModels,
+  maxTokens: number // the tokens left for the history by the model's context window, Infinity for unknown models
+  // for strategies which call a model themselves: the agent's and invocation's provider configurations,
+  // the invocation's signal and cache setting, and a listener which adds the usage to the agent's usage
+  providerConfig?: TProviderConfigs
+  signal?: AbortSignal
+  cache?: boolean
+  onUsage?: (usage: IUsageReport) => void
+}
+
+// returns the history sent to the model, the agent's own history is not changed
+export type THistoryStrategy = (history: IMessage[], context: IHistoryContext) => IMessage[] | Promise<IMessage[]>
+
+export interface ISummarizeOptions {
+  model: TModels | TModels[], // the model writing the summaries
+  keepLast?: number, // the newest messages kept as they are, defaults to 4
+  maxTokens?: number // summarizes once the history exceeds this budget instead of the context window
+}
+
+// ====================================
+// Used for conversation sessions
+// ====================================
+
+// anything which can hold a conversation: agents, teams, pipes, votes and graphs
+export interface ISessionWorker {
+  name: string,
+  invoke: (i: IInvocation) => Promise<IResult>
+}
+
+export interface ISessionRecord {
+  key: string, // the worker's name and the session id
+  history: IMessage[],
+  state: Record<string, any>, // the plain state, wrapped into a State for every message
+  updatedAt: number // epoch milliseconds
+}
+
+export interface ISessionStore {
+  load: (key: string) => Promise<ISessionRecord | undefined>,
+  save: (record: ISessionRecord) => Promise<void>,
+  delete: (key: string) => Promise<void>
+}
+
+export interface ISessionOptions {
+  store?: ISessionStore, // defaults to the store set by configureSessions, in memory if none is set
+  state?: Record<string, any> // the state of a new session
+}
+
+// ====================================
+// Used for prompt templates
+// ====================================
+
+export interface ITemplateContext<TState = Record<string, any>> {
+  state: TState,
+  task: string // the user task of the invocation
+}
+
+export interface ITemplate<TState = any> {
+  source: string,
+  render: (context: ITemplateContext<TState>) => string
+}
+
+// the dot paths of a state type, e.g. "weather" | "weather.humidity". Arrays and deeply nested objects end a path,
+// untyped states have any path
+export type TPath<T, Depth extends unknown[] = []> = 0 extends (1 & T)
+  ? string
+  : Depth["length"] extends 6
+  ? never
+  : T extends readonly any[]
+  ? never
+  : T extends Record<string, any>
+  ? { [K in keyof T & string]: K | `${K}.${TPath<T[K], [...Depth, unknown]>}` }[keyof T & string]
+  : never
+
+type TTrim<S extends string> = S extends ` ${infer R}` ? TTrim<R> : S extends `${infer R} ` ? TTrim<R> : S
+
+// the placeholders of a template, e.g. "state.city" | "#if state.alerts" | "/if"
+type TPlaceholders<S extends string> = S extends `${string}{{${infer P}}}${infer Rest}` ? TTrim<P> | TPlaceholders<Rest> : never
+
+// the path of a placeholder, without the block keywords
+type TPlaceholderPath<P extends string> = P extends `#if ${infer Path}` | `#each ${infer Path}`
+  ? TTrim<Path>
+  : P extends "else" | "/if" | "/each"
+  ? never
+  : P
+
+type TValidPath<TState> = `state.${TPath<TState>}` | "state" | "task" | "this" | `this.${string}` | "@index"
+
+type TInvalidPlaceholders<S extends string, TState> = Exclude<TPlaceholderPath<TPlaceholders<S>>, TValidPath<TState>>
+
+// no arguments if all placeholders of the template exist in the state type, else an argument naming the invalid ones
+export type TTemplateCheck<S extends string, TState> = [TInvalidPlaceholders<S, TState>] extends [never]
+  ? []
+  : [error: `Unknown template placeholder: {{${TInvalidPlaceholders<S, TState>}}}`]
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { Agent, configureProviders, createTool, EOutput, IMessage, resetProviderConfigs, set, State } from "../src";
+import { getAnthropicClient } from "../src/provider/anthropic";
+
+const usage = { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 4, cache_creation_input_tokens: 1 };
+
+const toolUse = (name: string, input: unknown, id: string = "toolu_1") => ({
+    content: [{ type: "tool_use", id, name, input }],
+    usage
+});
+
+const createAgent = (outputType: EOutput = EOutput.JSON, tools?: any[]) => new Agent({
+    name: "claude_agent",
+    description: "Answers with a greeting.",
+    task: "Say hello.",
+    retries: 1,
+    model: "anthropic/claude-3-5-sonnet-latest",
+    outputType,
+    outputSchema: outputType === EOutput.TEXT ? undefined : z.object({ greeting: z.string() }),
+    tools,
+    lifecycle: {
+        afterRun: {
+            stateManipulations: outputType === EOutput.TEXT ? [] : [set("greeting")]
+        }
+    }
+});
+
+describe("anthropic provider", () => {
+    let create: jest.SpyInstance;
+
+    beforeEach(() => {
+        resetProviderConfigs();
+        configureProviders({ anthropic: { apiKey: "test" } });
+        create = jest.spyOn(getAnthropicClient().messages, "create");
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("forces a result tool with the output schema and counts cached tokens", async () => {
+        create.mockResolvedValueOnce(toolUse("result", { greeting: "Hello!" }));
+
+        const state = new State({ greeting: "" });
+        const result = await createAgent().invoke({ state, task: "greet" });
+
+        const request = create.mock.calls[0][0];
+        expect(request.tool_choice).toEqual({ type: "tool", name: "result" });
+        expect(request.tools[0].input_schema.properties.greeting).toEqual({ type: "string" });
+        expect(state.getState().greeting).toBe("Hello!");
+        expect(result.history.at(-1)?.usage).toEqual({ promptTokens: 15, completionTokens: 5, cachedTokens: 4, totalTokens: 20 });
+    });
+
+    it("rejects a result tool input which does not match the output schema", async () => {
+        create.mockResolvedValueOnce(toolUse("result", { greeting: 42 }));
+
+        const state = new State({ greeting: "" });
+        await expect(createAgent().invoke({ state, task: "greet" }))
+            .rejects.toThrow('returned a structured result not matching the output schema of agent "claude_agent"');
+        expect(state.getState().greeting).toBe("");
+    });
+
+    it("maps the history onto user and assistant turns", async () => {
+        create.mockResolvedValueOnce(toolUse("result", { greeting: "Hello!" }));
+        const history: IMessage[] = [
+            { name: "user", role: "user", content: [{ type: "text", text: "Look at these." }, { type: "image", data: "aW1hZ2U=", mimeType: "image/png" }, { type: "file", data: "cGRm", mimeType: "application/pdf" }] },
+            { name: "evaluator", role: "system", content: "Be brief." },
+            { name: "claude_agent", role: "assistant", content: null, tool_calls: [
+                { id: "toolu_a", type: "function", function: { name: "lookup", arguments: '{"id":1}' } },
+                { id: "toolu_b", type: "function", function: { name: "lookup", arguments: '{"id":2}' } }
+            ] },
+            { name: "claude_agent", role: "tool", content: "Ada", tool_call_id: "toolu_a" },
+            { name: "claude_agent", role: "tool", content: "Grace", tool_call_id: "toolu_b" }
+        ];
+
+        await createAgent().invoke({ state: new State({ greeting: "" }), task: "greet", history });
+
+        const messages = create.mock.calls[0][0].messages;
+        expect(messages.map((message: any) => message.role)).toEqual(["user", "assistant", "user"]);
+        expect(messages[0].content).toEqual([
+            { type: "text", text: "Look at these." },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "aW1hZ2U=" } },
+            { type: "document", source: { type: "base64", media_type: "application/pdf", data: "cGRm" } },
+            { type: "text", text: "[evaluator]: Be brief." }
+        ]);
+        expect(messages[1].content.map((block: any) => block.input)).toEqual([{ id: 1 }, { id: 2 }]);
+        expect(messages[2].content.slice(0, 2)).toEqual([
+            { type: "tool_result", tool_use_id: "toolu_a", content: "Ada" },
+            { type: "tool_result", tool_use_id: "toolu_b", content: "Grace" }
+        ]);
+    });
+
+    it("maps the sampling parameters", async () => {
+        create
+            .mockResolvedValueOnce(toolUse("result", { message: "Hello!" }))
+            .mockResolvedValueOnce(toolUse("result", { message: "Hello!" }));
+
+        const agent = createAgent(EOutput.TEXT);
+        await agent.invoke({ state: new State({}), task: "greet" });
+        const result = await agent.invoke({ state: new State({}), task: "greet", modelParams: { temperature: 0.2, topP: 0.9, stop: "END", maxTokens: 100 } });
+
+        expect(create.mock.calls[0][0].max_tokens).toBe(4096);
+        expect(create.mock.calls[1][0]).toMatchObject({ temperature: 0.2, top_p: 0.9, stop_sequences: ["END"], max_tokens: 100 });
+        expect(result.output).toEqual({ message: "Hello!" });
+    });
+
+    it("calls tools until the model answers", async () => {
+        const lookup = jest.fn(() => ({ name: "Ada" }));
+        create
+            .mockResolvedValueOnce(toolUse("lookup", {}))
+            .mockResolvedValueOnce({ content: [{ type: "text", text: '{"greeting":"Hello Ada!"}' }], usage });
+
+        const state = new State({ greeting: "" });
+        const tools = [createTool({ name: "lookup", description: "Looks up the user.", schema: z.object({}), fn: lookup })];
+        await createAgent(EOutput.TOOL, tools).invoke({ state, task: "greet" });
+
+        expect(create.mock.calls[0][0].tools[0].name).toBe("lookup");
+        expect(create.mock.calls[1][0].messages.at(-1).content[0]).toEqual({ type: "tool_result", tool_use_id: "toolu_1", content: JSON.stringify({ name: "Ada" }) });
+        expect(lookup).toHaveBeenCalledTimes(1);
+        expect(state.getState().greeting).toBe("Hello Ada!");
+    });
+});
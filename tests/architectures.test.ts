@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { Agent, EOutput, getMockCalls, Graph, mockResponses, Pipe, set, State, Supervisor, Team, Vote } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const calledAgents = () => getMockCalls().map((call) => call.config.name);
+
+describe("architectures", () => {
+    useMockProvider();
+
+    it("Graph follows conditional edges", async () => {
+        const router = createMockAgent("router", "route");
+        const left = createMockAgent("left", "side");
+        const right = createMockAgent("right", "side");
+
+        const graph = new Graph({ name: "graph", description: "routes left or right" })
+            .addEdge("START", router)
+            .addConditionalEdge(router, (state: State<any>) => state.getState().route === "left" ? left : right)
+            .addEdge(left, "END")
+            .addEdge(right, "END");
+
+        mockResponses("router", [{ route: "right" }]);
+        mockResponses("right", [{ side: "right" }]);
+
+        const state = new State({ route: "", side: "" });
+        await graph.invoke({ state, task: "route" });
+
+        expect(calledAgents()).toEqual(["router", "right"]);
+        expect(state.getState()).toEqual({ route: "right", side: "right" });
+    });
+
+    it("Pipe invokes its workers in order", async () => {
+        const pipe = new Pipe({
+            name: "pipe",
+            description: "first, then second",
+            workers: [createMockAgent("first", "a"), createMockAgent("second", "b")]
+        });
+
+        mockResponses("first", [{ a: "1" }]);
+        mockResponses("second", [{ b: "2" }]);
+
+        const state = new State({ a: "", b: "" });
+        const result = await pipe.invoke({ state, task: "pipe" });
+
+        expect(calledAgents()).toEqual(["first", "second"]);
+        expect(state.getState()).toEqual({ a: "1", b: "2" });
+        expect(result.history.filter((message) => message.role === "assistant")).toHaveLength(2);
+    });
+
+    it("Team routes between supervisor and workers until done", async () => {
+        const supervisor = new Agent({
+            name: "team_supervisor",
+            description: "Routes the work.",
+            task: "Decide who works next.",
+            retries: 1,
+            model: "mock/supervisor",
+            outputType: EOutput.JSON,
+            outputSchema: z.object({ router: z.object({ next: z.string(), done: z.boolean() }) }),
+            lifecycle: {
+                afterRun: {
+                    stateManipulations: [set("router")]
+                }
+            }
+        });
+        const team = new Team({
+            name: "team",
+            description: "a team",
+            supervisor,
+            workers: [createMockAgent("researcher", "research")]
+        });
+
+        mockResponses("team_supervisor", [
+            { router: { next: "researcher", done: false } },
+            { router: { next: "", done: true } }
+        ]);
+        mockResponses("researcher", [{ research: "done" }]);
+
+        const state = new State({ router: { next: "", done: false }, research: "" });
+        await team.invoke({ state, task: "research" });
+
+        expect(calledAgents()).toEqual(["team_supervisor", "researcher", "team_supervisor"]);
+        expect(state.getState().research).toBe("done");
+    });
+
+    it("Team supervisor sees its earlier decisions of the same run", async () => {
+        const supervisor = new Agent({
+            name: "team_supervisor",
+            description: "Routes the work.",
+            task: "Decide who works next.",
+            retries: 1,
+            model: "mock/supervisor",
+            outputType: EOutput.JSON,
+            outputSchema: z.object({ router: z.object({ next: z.string(), done: z.boolean() }) }),
+            lifecycle: {
+                afterRun: {
+                    stateManipulations: [set("router")]
+                }
+            }
+        });
+        const team = new Team({ name: "team", description: "a team", supervisor, workers: [createMockAgent("researcher", "research")] });
+        const run = () => team.invoke({ state: new State({ router: { next: "", done: false }, research: "" }), task: "research" });
+
+        mockResponses("team_supervisor", [
+            { router: { next: "researcher", done: false } },
+            { router: { next: "", done: true } },
+            { router: { next: "", done: true } }
+        ]);
+        mockResponses("researcher", [{ research: "done" }]);
+
+        await run();
+        await run();
+
+        const [first, second, nextRun] = getMockCalls("team_supervisor").map((call) => call.config.history);
+        expect(first).toHaveLength(1);
+        expect(second.map((message) => message.content)).toEqual([first[0].content, JSON.stringify({ router: { next: "researcher", done: false } }), first[0].content]);
+        // a new run starts without the earlier decisions
+        expect(nextRun).toHaveLength(1);
+    });
+
+    it("Vote runs all workers before the synthesizer", async () => {
+        const vote = new Vote({
+            name: "vote",
+            description: "a vote",
+            workers: [createMockAgent("voter_1", "vote_1"), createMockAgent("voter_2", "vote_2")],
+            synthesizer: createMockAgent("synthesizer", "decision")
+        });
+
+        mockResponses("voter_1", [{ vote_1: "yes" }]);
+        mockResponses("voter_2", [{ vote_2: "no" }]);
+        mockResponses("synthesizer", [{ decision: "undecided" }]);
+
+        const state = new State({ vote_1: "", vote_2: "", decision: "" });
+        await vote.invoke({ state, task: "vote" });
+
+        expect(calledAgents().slice(0, 2).sort()).toEqual(["voter_1", "voter_2"]);
+        expect(calledAgents()[2]).toBe("synthesizer");
+        expect(state.getState()).toEqual({ vote_1: "yes", vote_2: "no", decision: "undecided" });
+    });
+
+    it("Supervisor builds and invokes a graph of its workers", async () => {
+        const supervisor = new Supervisor({
+            name: "supervisor",
+            description: "plans the work",
+            model: "mock/supervisor",
+            workers: [createMockAgent("planner", "plan"), createMockAgent("writer", "text")]
+        });
+
+        mockResponses("supervisor", [{
+            nodes: ["planner", "writer"],
+            edges: [
+                { from: "planner", to: "writer", type: "direct" },
+                { from: "writer", to: "END", type: "direct" }
+            ]
+        }]);
+        mockResponses("agent_factory", [{
+            additionalWorkers: [{
+                name: "reviewer",
+                description: "reviews the text",
+                task: "Review the text.",
+                outputProperties: [{ name: "review", type: "string", description: "the review" }]
+            }]
+        }]);
+        mockResponses("planner", [{ plan: "outline" }]);
+        mockResponses("writer", [{ text: "article" }]);
+
+        const state = new State({ plan: "", text: "" });
+        await supervisor.invoke({ state, task: "write an article" });
+
+        expect(calledAgents()).toEqual(["supervisor", "agent_factory", "planner", "writer"]);
+        expect(state.getState()).toEqual({ plan: "outline", text: "article" });
+        expect(supervisor.workers.map((worker) => worker.name)).toContain("reviewer");
+    });
+});
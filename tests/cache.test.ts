@@ -0,0 +1,131 @@
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { z } from "zod";
+import { createTool, disableResponseCache, EOutput, fileCacheStore, getMockCalls, ICompletionConfig, IInvocation, IMessage, IResult, mockResponses, State, TStreamEvent, useResponseCache } from "../src";
+import { hashCompletionRequest } from "../src/helper/hash";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createAgent = () => createMockAgent("cached");
+
+const invoke = (options: Partial<IInvocation> = {}) => createAgent().invoke({ state: new State({ answer: "" }), task: "What is the answer?", ...options });
+
+describe("response cache", () => {
+    useMockProvider();
+
+    beforeEach(() => {
+        mockResponses("cached", [{ answer: "42" }, { answer: "43" }]);
+    });
+
+    afterEach(() => {
+        disableResponseCache();
+    });
+
+    it("answers identical requests from the cache", async () => {
+        useResponseCache();
+
+        const first = await invoke();
+        const second = await invoke();
+
+        expect(getMockCalls("cached")).toHaveLength(1);
+        expect(JSON.parse(second.history[1].content)).toEqual({ answer: "42" });
+        expect(first.history[1].cached).toBeUndefined();
+        expect(second.history[1].cached).toBe(true);
+    });
+
+    it("excludes cached answers from the usage report", async () => {
+        useResponseCache();
+
+        const first = await invoke();
+        const second = await invoke();
+
+        expect(first.usage?.total.totalTokens).toBeGreaterThan(0);
+        expect(second.usage?.total.totalTokens).toBe(0);
+    });
+
+    it("bypasses the cache per invocation", async () => {
+        useResponseCache();
+
+        await invoke();
+        const result = await invoke({ cache: false });
+
+        expect(getMockCalls("cached")).toHaveLength(2);
+        expect(JSON.parse(result.history[1].content)).toEqual({ answer: "43" });
+    });
+
+    it("requests a fresh answer once the TTL expired", async () => {
+        useResponseCache({ ttlMs: 1000 });
+        const now = jest.spyOn(Date, "now").mockReturnValue(0);
+
+        await invoke();
+        now.mockReturnValue(2000);
+        const result = await invoke();
+        now.mockRestore();
+
+        expect(getMockCalls("cached")).toHaveLength(2);
+        expect(result.history[1].cached).toBeUndefined();
+    });
+
+    it("keeps responses on disk with the file store", async () => {
+        const directory = mkdtempSync(path.join(tmpdir(), "cache-"));
+        try {
+            useResponseCache({ store: fileCacheStore(directory) });
+            await invoke();
+
+            // a new store on the same directory, e.g. after a restart
+            useResponseCache({ store: fileCacheStore(directory) });
+            const result = await invoke();
+
+            expect(readdirSync(directory)).toHaveLength(1);
+            expect(getMockCalls("cached")).toHaveLength(1);
+            expect(result.history[1].cached).toBe(true);
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it("tells requests apart by their tool calls", () => {
+        const toolTurn = (query: string): IMessage[] => [
+            { name: "cached", role: "user", content: "Search." },
+            { name: "cached", role: "assistant", content: null, tool_calls: [{ id: "call_1", type: "function", function: { name: "search", arguments: JSON.stringify({ query }) } }] },
+            { name: "cached", role: "tool", content: "[]", tool_call_id: "call_1" }
+        ];
+        const request = (history: IMessage[]) => ({ model: "cached", outputType: EOutput.TOOL, task: "Search.", history } as ICompletionConfig);
+
+        expect(hashCompletionRequest("mock", request(toolTurn("cats")))).not.toBe(hashCompletionRequest("mock", request(toolTurn("dogs"))));
+    });
+
+    it("keeps the answers of different endpoints apart", async () => {
+        useResponseCache();
+
+        await invoke({ providerConfig: { mock: { baseURL: "http://localhost:11434/v1" } } });
+        const result = await invoke({ providerConfig: { mock: { baseURL: "http://localhost:8000/v1" } } });
+
+        expect(getMockCalls("cached")).toHaveLength(2);
+        expect(result.history[1].cached).toBeUndefined();
+    });
+
+    it("replays the tool calls and tool results of a cached TOOL_CALL answer", async () => {
+        useResponseCache();
+        const search = jest.fn(() => ({ answer: "42" }));
+        const createResearcher = () => createMockAgent("researcher", "answer", {
+            outputType: EOutput.TOOL,
+            tools: [createTool({ name: "search", description: "Searches the web.", schema: z.object({ query: z.string() }), fn: search })]
+        });
+        mockResponses("researcher", [{ tool: "search", arguments: { query: "answer" } }, { answer: "42" }]);
+
+        const fresh = await createResearcher().invoke({ state: new State({ answer: "" }), task: "What is the answer?" });
+        const events: TStreamEvent[] = [];
+        for await (const event of createResearcher().stream({ state: new State({ answer: "" }), task: "What is the answer?" })) {
+            events.push(event);
+        }
+        const cached = (events.at(-1) as { result: IResult }).result;
+
+        expect(search).toHaveBeenCalledTimes(1);
+        expect(cached.history.map((message) => message.role)).toEqual(["user", "assistant", "tool", "assistant"]);
+        expect(cached.history.slice(1).every((message) => message.cached)).toBe(true);
+        expect(cached.history.map((message) => message.content)).toEqual(fresh.history.map((message) => message.content));
+        expect(cached.usage?.total.totalTokens).toBe(0);
+        expect(events.filter((event) => event.type === "token")).toEqual([{ type: "token", agent: "researcher", delta: '{"answer":"42"}' }]);
+    });
+});
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { Agent, CancellationError, createTool, EOutput, getMockCalls, mockResponses, Pipe, State } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const hang = () => new Promise(() => { });
+
+const createAgent = (name: string, options: { timeoutMs?: number, tools?: any[] } = {}) => createMockAgent(name, "answer", {
+    outputType: options.tools ? EOutput.TOOL : EOutput.JSON,
+    ...options
+});
+
+describe("cancellation", () => {
+    useMockProvider();
+
+    it("rejects an agent invocation after its timeout", async () => {
+        mockResponses("slow", [hang]);
+
+        const state = new State({ answer: "" });
+        const error = await createAgent("slow", { timeoutMs: 50 }).invoke({ state, task: "question" }).catch((error) => error);
+
+        expect(error).toBeInstanceOf(CancellationError);
+        expect(error.message).toBe('Agent "slow" was cancelled: Timed out after 50ms.');
+        expect(error.history).toHaveLength(1);
+        expect(error.state).toBe(state);
+    });
+
+    it("passes the signal to the provider and does not retry cancelled requests", async () => {
+        const controller = new AbortController();
+        mockResponses("aborted", [() => {
+            controller.abort(new Error("Stopped by the user."));
+            return Object.assign(new Error("503 Service Unavailable"), { status: 503 });
+        }]);
+
+        await expect(createAgent("aborted").invoke({ state: new State({ answer: "" }), task: "question", signal: controller.signal }))
+            .rejects.toThrow('Agent "aborted" was cancelled: Stopped by the user.');
+        expect(getMockCalls("aborted")).toHaveLength(1);
+        expect(getMockCalls("aborted")[0].config.signal).toBeDefined();
+    });
+
+    it("cancels a pipe with the history of its finished agents and frees it for the next invocation", async () => {
+        const controller = new AbortController();
+        mockResponses("first", [{ answer: "first" }, { answer: "first again" }]);
+        mockResponses("second", [() => { controller.abort(); return hang(); }, { answer: "second" }]);
+
+        const pipe = new Pipe({ name: "pipe", description: "Answers twice.", workers: [createAgent("first"), createAgent("second")] });
+        const state = new State({ answer: "" });
+        const error = await pipe.invoke({ state, task: "question", signal: controller.signal }).catch((error) => error);
+
+        expect(error).toBeInstanceOf(CancellationError);
+        expect(error.history.filter((message: any) => message.role === "assistant").map((message: any) => message.name)).toEqual(["first"]);
+        expect(error.state.getState().answer).toBe("first");
+
+        const result = await pipe.invoke({ state: new State({ answer: "" }), task: "question" });
+        expect(result.state.getState().answer).toBe("second");
+    });
+
+    it("cancels a pipe after its timeout", async () => {
+        mockResponses("first", [hang]);
+
+        const pipe = new Pipe({ name: "pipe", description: "Answers.", workers: [createAgent("first")], timeoutMs: 50 });
+
+        await expect(pipe.invoke({ state: new State({ answer: "" }), task: "question" }))
+            .rejects.toThrow('Graph "pipe" was cancelled: Timed out after 50ms.');
+    });
+
+    it("passes the signal to tools", async () => {
+        let toolSignal: AbortSignal | undefined;
+        const wait = createTool({
+            name: "wait",
+            description: "Waits until it is cancelled.",
+            schema: z.object({}),
+            fn: (_args, { signal }) => {
+                toolSignal = signal;
+                return hang();
+            }
+        });
+        mockResponses("tooling", [{ tool: "wait", arguments: {} }]);
+
+        await expect(createAgent("tooling", { tools: [wait], timeoutMs: 50 }).invoke({ state: new State({ answer: "" }), task: "question" }))
+            .rejects.toBeInstanceOf(CancellationError);
+        expect(toolSignal?.aborted).toBe(true);
+    });
+});
@@ -0,0 +1,67 @@
+import { Agent, EModels, EOutput, getModelCapabilities, Graph, mockResponses, registerModelCapabilities, resetMock, State, TranscriptionAgent } from "../src";
+
+const createAgent = (model: string | string[], outputType: EOutput) => new Agent({
+    name: "checked",
+    description: "Answers a question.",
+    task: "Answer the question.",
+    retries: 1,
+    model,
+    outputType,
+    lifecycle: { afterRun: { stateManipulations: [] } }
+});
+
+describe("model capabilities", () => {
+    beforeEach(() => {
+        resetMock();
+    });
+
+    it("knows the capabilities of the built-in models", () => {
+        expect(getModelCapabilities(EModels.gpt_4o)).toMatchObject({ contextLength: 128000, tools: true, jsonSchema: true, vision: true });
+        expect(getModelCapabilities(EModels.whisper_large_v3)).toMatchObject({ chat: false, audio: true });
+        expect(getModelCapabilities("custom/model")).toBeUndefined();
+    });
+
+    it("rejects agents whose model does not support the output type", () => {
+        expect(() => createAgent(EModels.whisper_large_v3, EOutput.TOOL))
+            .toThrow('Agent "checked" cannot use model "groq/whisper-large-v3": it does not support chat completions, required by outputType "tool_call".');
+        expect(() => createAgent(EModels.gpt_3_5_turbo_instruct, EOutput.JSON)).toThrow("does not support chat completions");
+        expect(() => createAgent([EModels.gpt_4o, EModels.gpt_3_5_turbo], EOutput.JSON))
+            .toThrow('cannot use model "openai/gpt-3.5-turbo": it does not support JSON schema outputs');
+    });
+
+    it("accepts unknown models and registered capabilities", () => {
+        expect(() => createAgent("mock/anything", EOutput.TOOL)).not.toThrow();
+
+        registerModelCapabilities("mock/textonly", { tools: false });
+        expect(() => createAgent("mock/textonly", EOutput.TEXT)).not.toThrow();
+        expect(() => createAgent("mock/textonly", EOutput.TOOL)).toThrow("does not support tool calls");
+    });
+
+    it("rejects transcription agents on chat models", () => {
+        expect(() => new TranscriptionAgent({
+            name: "transcriber",
+            description: "Transcribes voice notes.",
+            model: EModels.gpt_4o,
+            lifecycle: { afterRun: { stateManipulations: [] } }
+        })).toThrow('Agent "transcriber" cannot use model "openai/gpt-4o": it does not support audio transcriptions, required by a TranscriptionAgent.');
+    });
+
+    it("validates reconfigured agents when they are added to a graph", () => {
+        const agent = createAgent(EModels.gpt_4o, EOutput.TOOL);
+        agent.model = EModels.llama_guard_3_8b;
+
+        expect(() => new Graph({ name: "checks", description: "Checks nodes." }).addEdge("START", agent))
+            .toThrow('Invalid node in graph "checks": Agent "checked" cannot use model "groq/llama-guard-3-8b"');
+    });
+
+    it("rejects image attachments for models without vision", async () => {
+        registerModelCapabilities("mock/blind", { vision: false });
+        mockResponses("checked", ["Seen."]);
+
+        await expect(createAgent("mock/blind", EOutput.TEXT).invoke({
+            state: new State({}),
+            task: "Describe the image.",
+            attachments: [{ type: "image", url: "https://example.com/cat.png" }]
+        })).rejects.toThrow("does not support image inputs, required by the image attachments");
+    });
+});
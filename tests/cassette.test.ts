@@ -0,0 +1,75 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { z } from "zod";
+import { createTool, ejectCassette, EOutput, mockResponses, resetMock, State, useCassette } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createAgent = () => createMockAgent("recorded");
+
+describe("cassettes", () => {
+    let directory: string;
+
+    useMockProvider();
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(tmpdir(), "cassette-"));
+    });
+
+    afterEach(() => {
+        ejectCassette();
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("replays recorded responses without calling the provider", async () => {
+        const cassettePath = path.join(directory, "answers.json");
+
+        useCassette({ path: cassettePath, mode: "record" });
+        mockResponses("recorded", [{ answer: "42" }]);
+        await createAgent().invoke({ state: new State({ answer: "" }), task: "What is the answer?" });
+
+        const cassette = JSON.parse(readFileSync(cassettePath, "utf-8"));
+        expect(Object.keys(cassette.interactions)).toHaveLength(1);
+
+        resetMock();
+        useCassette({ path: cassettePath, mode: "replay" });
+        const state = new State({ answer: "" });
+        await createAgent().invoke({ state, task: "What is the answer?" });
+
+        expect(state.getState().answer).toBe("42");
+    });
+
+    it("fails loudly on a cache miss during replay", async () => {
+        const cassettePath = path.join(directory, "answers.json");
+
+        useCassette({ path: cassettePath, mode: "record" });
+        mockResponses("recorded", [{ answer: "42" }]);
+        await createAgent().invoke({ state: new State({ answer: "" }), task: "What is the answer?" });
+
+        useCassette({ path: cassettePath, mode: "replay" });
+        await expect(createAgent().invoke({ state: new State({ answer: "" }), task: "A different question?" }))
+            .rejects.toThrow(/Cassette miss/);
+    });
+
+    it("replays the tool calls and tool results of a TOOL_CALL run", async () => {
+        const cassettePath = path.join(directory, "tools.json");
+        const search = jest.fn(() => ({ answer: "42" }));
+        const createResearcher = () => createMockAgent("researcher", "answer", {
+            outputType: EOutput.TOOL,
+            tools: [createTool({ name: "search", description: "Searches the web.", schema: z.object({ query: z.string() }), fn: search })]
+        });
+
+        useCassette({ path: cassettePath, mode: "record" });
+        mockResponses("researcher", [{ tool: "search", arguments: { query: "answer" } }, { answer: "42" }]);
+        const recorded = await createResearcher().invoke({ state: new State({ answer: "" }), task: "What is the answer?" });
+
+        resetMock();
+        useCassette({ path: cassettePath, mode: "replay" });
+        const replayed = await createResearcher().invoke({ state: new State({ answer: "" }), task: "What is the answer?" });
+
+        expect(search).toHaveBeenCalledTimes(1);
+        expect(replayed.history.map((message) => message.role)).toEqual(["user", "assistant", "tool", "assistant"]);
+        expect(replayed.history).toEqual(recorded.history);
+        expect(replayed.usage).toEqual(recorded.usage);
+    });
+});
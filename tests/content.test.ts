@@ -0,0 +1,63 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { getMockCalls, mockResponses, Pipe, readContentPart, State, TContentPart } from "../src";
+import { toChatMessages } from "../src/helper/messages";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const invoice: TContentPart = { type: "image", data: "aW52b2ljZQ==", mimeType: "image/png" };
+
+const createAgent = (name: string) => createMockAgent(name, name, { model: "mock/content" });
+
+describe("multimodal content", () => {
+    useMockProvider();
+
+    it("attaches the invocation's attachments to the task of every agent", async () => {
+        mockResponses("extractor", [{ extractor: "total: 42" }]);
+        mockResponses("booker", [{ booker: "booked" }]);
+
+        await new Pipe({
+            name: "invoices",
+            description: "Processes invoices.",
+            workers: [createAgent("extractor"), createAgent("booker")]
+        }).invoke({ state: new State({}), task: "Process this invoice.", attachments: [invoice] });
+
+        const content = getMockCalls("booker")[0].config.history[0].content;
+        expect(content[0]).toEqual({ type: "text", text: expect.stringContaining("Process this invoice.") });
+        expect(content[1]).toEqual(invoice);
+    });
+
+    it("translates content parts into the chat completion format", () => {
+        const messages = toChatMessages("system", [
+            { name: "user", role: "user", content: [{ type: "text", text: "What is this?" }, invoice] },
+            { name: "bot", role: "assistant", content: [{ type: "text", text: "An invoice." }] }
+        ]);
+
+        expect(messages[1].content).toEqual([
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,aW52b2ljZQ==" } }
+        ]);
+        expect(messages[2].content).toBe("An invoice.");
+    });
+
+    it("rejects file parts for endpoints without file support", () => {
+        const history = [{ name: "user", role: "user" as const, content: [{ type: "file" as const, fileId: "file-1" }] }];
+
+        expect(toChatMessages("system", history)[1].content).toEqual([{ type: "file", file: { file_id: "file-1" } }]);
+        expect(() => toChatMessages("system", history, { files: false })).toThrow("File content parts are not supported");
+    });
+
+    it("reads local files into content parts", async () => {
+        const directory = mkdtempSync(path.join(tmpdir(), "content-"));
+        try {
+            writeFileSync(path.join(directory, "scan.png"), "invoice");
+            writeFileSync(path.join(directory, "invoice.pdf"), "invoice");
+
+            expect(await readContentPart(path.join(directory, "scan.png"))).toEqual(invoice);
+            expect(await readContentPart(path.join(directory, "invoice.pdf")))
+                .toEqual({ type: "file", data: "aW52b2ljZQ==", mimeType: "application/pdf", name: "invoice.pdf" });
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,44 @@
+import { Agent, getMockCalls, mockResponses, State, TModels } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createFallbackAgent = (model: TModels | TModels[]) => createMockAgent("fallback", "greeting", { model });
+
+describe("model fallback chains", () => {
+    useMockProvider();
+
+    it("fails over to the next model when a provider throws", async () => {
+        mockResponses("fallback", [new Error("429 Rate limit reached"), { greeting: "Hello from backup!" }]);
+
+        const state = new State({ greeting: "" });
+        const result = await createFallbackAgent(["mock/primary", "mock/backup"]).invoke({ state, task: "greet" });
+
+        expect(getMockCalls("fallback").map((call) => call.config.model)).toEqual(["primary", "backup"]);
+        expect(state.getState().greeting).toBe("Hello from backup!");
+        expect(result.history.find((message) => message.role === "assistant")?.model).toBe("mock/backup");
+    });
+
+    it("fails over when the output does not match the schema", async () => {
+        mockResponses("fallback", [{ greeting: 42 }, { greeting: "Valid!" }]);
+
+        const state = new State({ greeting: "" });
+        await createFallbackAgent(["mock/primary", "mock/backup"]).invoke({ state, task: "greet" });
+
+        expect(getMockCalls("fallback")).toHaveLength(2);
+        expect(state.getState().greeting).toBe("Valid!");
+    });
+
+    it("records the model of a single model agent", async () => {
+        mockResponses("fallback", [{ greeting: "Hello!" }]);
+
+        const result = await createFallbackAgent("mock/primary").invoke({ state: new State({ greeting: "" }), task: "greet" });
+
+        expect(result.history.find((message) => message.role === "assistant")?.model).toBe("mock/primary");
+    });
+
+    it("throws with every model's error when all models fail", async () => {
+        mockResponses("fallback", [new Error("timeout"), new Error("503 Service Unavailable")]);
+
+        await expect(createFallbackAgent(["mock/primary", "mock/backup"]).invoke({ state: new State({}), task: "greet" }))
+            .rejects.toThrow('Agent "fallback" failed on all models. "mock/primary": timeout "mock/backup": 503 Service Unavailable');
+    });
+});
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { Agent, defineAgent, EOutput, mockResponses, Pipe, push, resetMock, set, State } from "../src";
+
+interface IWeatherState {
+    city: string,
+    weather: { humidity: number },
+    reports: string[]
+}
+
+const reportSchema = z.object({ report: z.string(), humidity: z.number().default(0) });
+
+const createReporter = (name: string) => defineAgent<IWeatherState>()({
+    name,
+    description: "Reports the weather.",
+    task: "Report the weather.",
+    retries: 1,
+    model: `mock/${name}`,
+    outputType: EOutput.JSON,
+    outputSchema: reportSchema,
+    lifecycle: {
+        afterRun: {
+            stateManipulations: [set("humidity", "weather.humidity"), push("report", "reports")]
+        }
+    }
+});
+
+const createState = () => new State<IWeatherState>({ city: "Berlin", weather: { humidity: 0 }, reports: [] });
+
+describe("generic typing", () => {
+    beforeEach(() => {
+        resetMock();
+    });
+
+    it("returns the output of an agent, parsed by its output schema", async () => {
+        mockResponses("reporter", [{ report: "Dry." }]);
+
+        const result = await createReporter("reporter").invoke({ state: createState(), task: "Berlin" });
+        const report: string = result.output.report;
+
+        expect(report).toBe("Dry.");
+        expect(result.output.humidity).toBe(0);
+        // @ts-expect-error the output inferred from the schema has no wind
+        expect(result.output.wind).toBeUndefined();
+        expect(result.state.getState().reports).toEqual(["Dry."]);
+    });
+
+    it("infers the output from the output schema", async () => {
+        mockResponses("inferred", [{ answer: "42" }]);
+
+        const agent = new Agent({
+            name: "inferred",
+            description: "Answers questions.",
+            task: "Answer the question.",
+            retries: 1,
+            model: "mock/inferred",
+            outputType: EOutput.JSON,
+            outputSchema: z.object({ answer: z.string() }),
+            lifecycle: { afterRun: { stateManipulations: [] } }
+        });
+        const result = await agent.invoke({ state: new State({}), task: "question" });
+
+        expect(result.output.answer).toBe("42");
+        // @ts-expect-error the output has no question
+        expect(result.output.question).toBeUndefined();
+    });
+
+    it("retries output which does not match the output schema before using it", async () => {
+        mockResponses("counter", [{ n: "not a number" }, { n: 1 }]);
+
+        const agent = new Agent({
+            name: "counter",
+            description: "Counts.",
+            task: "Count.",
+            retries: 2,
+            model: "mock/counter",
+            outputType: EOutput.JSON,
+            outputSchema: z.object({ n: z.number() }),
+            memory: true,
+            lifecycle: { afterRun: { stateManipulations: [set("n")] } }
+        });
+        const state = new State({ n: 0 });
+        const result = await agent.invoke({ state, task: "count" });
+
+        expect(result.output.n).toBe(1);
+        expect(state.getState().n).toBe(1);
+        expect(agent.history.map((message) => message.name)).toEqual(["counter", "counter", "evaluator", "counter"]);
+        expect(agent.history[2].content).toContain("The output does not match the output schema");
+    });
+
+    it("returns the output of the last agent of a pipe", async () => {
+        mockResponses("drafter", [{ report: "Draft.", humidity: 60 }]);
+        mockResponses("editor", [{ report: "Humid.", humidity: 80 }]);
+
+        const pipe = new Pipe<IWeatherState, z.infer<typeof reportSchema>>({
+            name: "reporters",
+            description: "Drafts and edits the report.",
+            workers: [createReporter("drafter"), createReporter("editor")]
+        });
+        const result = await pipe.invoke({ state: createState(), task: "Berlin" });
+
+        expect(result.output?.report).toBe("Humid.");
+        expect(result.state.getState().weather.humidity).toBe(80);
+    });
+
+    it("checks state paths and states against the state type", () => {
+        // @ts-expect-error the state has no wind
+        set<IWeatherState>("weather.wind");
+        // @ts-expect-error the result path is free, the state path is checked
+        push<IWeatherState>("report", "forecasts");
+        // @ts-expect-error the state of the invocation must match
+        const invalidState = () => createReporter("reporter").invoke({ state: new State({ city: 1 }), task: "Berlin" });
+
+        const agent = new Agent<IWeatherState>({
+            name: "typed",
+            description: "Reports the weather.",
+            task: "Report the weather.",
+            retries: 1,
+            model: "mock/typed",
+            outputType: EOutput.JSON,
+            lifecycle: {
+                afterRun: {
+                    // @ts-expect-error the paths of the lifecycle are checked against the state of the agent
+                    stateManipulations: [set("city"), set("weather.wind")]
+                }
+            }
+        });
+
+        expect(invalidState).toBeInstanceOf(Function);
+        expect(agent.lifecycle.afterRun.stateManipulations).toHaveLength(2);
+    });
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { Agent, configureProviders, EOutput, resetProviderConfigs, set, State } from "../src";
+import { getGroqClient } from "../src/provider/groq";
+
+const completion = (content: string) => ({
+    choices: [{ message: { role: "assistant", content } }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+const createAgent = () => new Agent({
+    name: "groq_json",
+    description: "Answers with a greeting.",
+    task: "Say hello.",
+    retries: 1,
+    model: "groq/llama-3.3-70b-versatile",
+    outputType: EOutput.JSON,
+    outputSchema: z.object({ greeting: z.string() }),
+    lifecycle: {
+        afterRun: {
+            stateManipulations: [set("greeting")]
+        }
+    }
+});
+
+describe("groq structured output", () => {
+    let create: jest.SpyInstance;
+
+    beforeEach(() => {
+        resetProviderConfigs();
+        configureProviders({ groq: { apiKey: "test" } });
+        create = jest.spyOn(getGroqClient().chat.completions, "create");
+    });
+
+    it("puts the JSON Schema of the output schema into the prompt", async () => {
+        create.mockResolvedValueOnce(completion('{"greeting":"Hello!"}'));
+
+        const state = new State({ greeting: "" });
+        await createAgent().invoke({ state, task: "greet" });
+
+        const system = create.mock.calls[0][0].messages[0].content;
+        expect(system).not.toContain("[object Object]");
+        expect(system).toContain('"greeting":{"type":"string"}');
+        expect(state.getState().greeting).toBe("Hello!");
+    });
+
+    it("feeds validation errors back to the model", async () => {
+        create
+            .mockResolvedValueOnce(completion('{"greeting":42}'))
+            .mockResolvedValueOnce(completion('{"greeting":"Hello again!"}'));
+
+        const state = new State({ greeting: "" });
+        const result = await createAgent().invoke({ state, task: "greet" });
+
+        const correction = create.mock.calls[1][0].messages.at(-1);
+        expect(correction.role).toBe("user");
+        expect(correction.content).toContain("Your answer does not match the required JSON Schema");
+        expect(result.history.some((message) => message.name === "validator")).toBe(true);
+        expect(state.getState().greeting).toBe("Hello again!");
+    });
+});
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { Agent, createTool, EOutput, getMockCalls, isSet, mockMatcher, mockResponses, resetMock, set, State } from "../src";
+
+const createHelloWorldAgent = (retries = 1) => new Agent({
+    name: "hello_world",
+    description: "Says hello to the world.",
+    task: "Say hello to the world.",
+    retries,
+    model: "mock/hello",
+    outputType: EOutput.JSON,
+    outputSchema: z.object({ greeting: z.string() }),
+    lifecycle: {
+        afterRun: {
+            resultEvaluations: [isSet("greeting")],
+            stateManipulations: [set("greeting")]
+        }
+    }
+});
+
+describe("hello world agent", () => {
+    beforeEach(() => {
+        resetMock();
+    });
+
+    it("writes the scripted JSON response into the state", async () => {
+        mockResponses("hello_world", [{ greeting: "Hello World!" }]);
+
+        const state = new State({ greeting: "" });
+        const result = await createHelloWorldAgent().invoke({ state, task: "greet" });
+
+        expect(state.getState().greeting).toBe("Hello World!");
+        expect(result.history.find((message) => message.role === "assistant")?.content).toBe('{"greeting":"Hello World!"}');
+    });
+
+    it("retries until the result evaluations pass", async () => {
+        mockResponses("hello_world", [{ greeting: null }, { greeting: "Hello again!" }]);
+
+        const state = new State({ greeting: "" });
+        await createHelloWorldAgent(2).invoke({ state, task: "greet" });
+
+        expect(getMockCalls("hello_world")).toHaveLength(2);
+        expect(state.getState().greeting).toBe("Hello again!");
+    });
+
+    it("fails after running out of retries", async () => {
+        mockResponses("hello_world", [{ greeting: null }, { greeting: null }]);
+
+        await expect(createHelloWorldAgent(2).invoke({ state: new State({}), task: "greet" }))
+            .rejects.toThrow('Agent "hello_world" failed to produce a final output after 2 retries.');
+    });
+
+    it("answers from a matcher", async () => {
+        mockMatcher((config) => config.model === "hello", { greeting: "Matched!" });
+
+        const state = new State({ greeting: "" });
+        await createHelloWorldAgent().invoke({ state, task: "greet" });
+
+        expect(state.getState().greeting).toBe("Matched!");
+    });
+
+    it("executes the tool of a TOOL_CALL agent", async () => {
+        const fn = jest.fn(({ name }: { name: string }) => ({ greeting: `Hello ${name}!` }));
+        const agent = new Agent({
+            name: "tool_agent",
+            description: "Greets via a tool.",
+            task: "Greet the user with the greet tool.",
+            retries: 1,
+            model: "mock/tool",
+            outputType: EOutput.TOOL,
+            outputSchema: z.object({ greeting: z.string() }),
+            tools: [createTool({
+                name: "greet",
+                description: "Greets a person.",
+                schema: z.object({ name: z.string() }),
+                fn
+            })],
+            lifecycle: {
+                afterRun: {
+                    stateManipulations: [set("greeting")]
+                }
+            }
+        });
+        mockResponses("tool_agent", [
+            { tool: "greet", arguments: { name: "World" } },
+            { greeting: "Hello World!" }
+        ]);
+
+        const state = new State({ greeting: "" });
+        await agent.invoke({ state, task: "greet" });
+
+        expect(fn).toHaveBeenCalledWith({ name: "World" }, expect.objectContaining({ agent: "tool_agent" }));
+        expect(state.getState().greeting).toBe("Hello World!");
+    });
+});
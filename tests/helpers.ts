@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { Agent, EOutput, IAgent, resetMock, set } from "../src";
+
+/**
+ * Creates an agent of the mock provider which answers with { [key]: string } and sets the key in the state.
+ * Its model is "mock/<name>". The config overrides any of the defaults, e.g. the model or the lifecycle.
+ *
+ * @param {string} name - The name of the agent, which scripts its answers with mockResponses.
+ * @param {string} [key] - The key of the output which is set in the state, defaults to "answer".
+ * @param {Partial<IAgent>} [config] - Overrides of the agent config.
+ * @returns {Agent} - The agent.
+ */
+export const createMockAgent = (name: string, key: string = "answer", config: Partial<IAgent> = {}): Agent => new Agent({
+    name,
+    description: `Sets "${key}" in the state.`,
+    task: `Set "${key}".`,
+    retries: 1,
+    model: `mock/${name}`,
+    outputType: EOutput.JSON,
+    outputSchema: z.object({ [key]: z.string() }),
+    lifecycle: {
+        afterRun: {
+            stateManipulations: [set(key)]
+        }
+    },
+    ...config
+});
+
+/**
+ * Resets the scripted answers and recorded calls of the mock provider before every test of the file.
+ */
+export const useMockProvider = (): void => {
+    beforeEach(() => {
+        resetMock();
+    });
+}
@@ -0,0 +1,119 @@
+import { Agent, countTokens, EOutput, getMockCalls, IMessage, keepLastN, mockResponses, registerContextLength, resetMock, slidingWindow, State, summarize } from "../src";
+
+const message = (role: IMessage["role"], content: string, extra: Partial<IMessage> = {}): IMessage => ({ name: "history", role, content, ...extra });
+
+const longHistory = (turns: number): IMessage[] => [
+    message("user", "The task."),
+    ...Array.from({ length: turns }, (_, turn) => [
+        message("assistant", `Answer ${turn} ${"x".repeat(200)}`),
+        message("user", `Follow-up ${turn} ${"y".repeat(200)}`)
+    ]).flat()
+];
+
+const context = { agent: "history", model: "mock/small", maxTokens: Infinity };
+
+describe("history strategies", () => {
+    it("keeps the task and the newest messages within the token budget", async () => {
+        const history = longHistory(10);
+        const window = await slidingWindow({ maxTokens: 300 })(history, context);
+
+        expect(window[0]).toBe(history[0]);
+        expect(window[window.length - 1]).toBe(history[history.length - 1]);
+        expect(window.length).toBeLessThan(history.length);
+        expect(countTokens(window)).toBeLessThanOrEqual(300);
+    });
+
+    it("drops tool results whose tool call was cut off", async () => {
+        const history = [
+            message("user", "The task."),
+            message("assistant", "x".repeat(400), { tool_calls: [{ id: "1", type: "function", function: { name: "lookup", arguments: "{}" } }] }),
+            message("tool", "result", { tool_call_id: "1" }),
+            message("assistant", "done")
+        ];
+
+        const window = await slidingWindow()(history, { ...context, maxTokens: 40 });
+
+        expect(window.map((m) => m.role)).toEqual(["user", "assistant"]);
+        expect(window[1].content).toBe("done");
+    });
+
+    it("keeps the task, system messages and the last n messages", async () => {
+        const history = [...longHistory(3), message("system", "evaluation"), message("assistant", "last")];
+
+        const kept = await keepLastN(2)(history, context);
+
+        expect(kept.map((m) => m.content)).toEqual(["The task.", `Follow-up 2 ${"y".repeat(200)}`, "evaluation", "last"]);
+    });
+});
+
+describe("context-window management", () => {
+    beforeEach(() => {
+        resetMock();
+        registerContextLength("mock/small", 1000);
+    });
+
+    const createAgent = (historyStrategy?: any) => new Agent({
+        name: "history",
+        description: "Answers follow-up questions.",
+        task: "Answer the question.",
+        retries: 1,
+        model: "mock/small",
+        outputType: EOutput.TEXT,
+        historyStrategy,
+        memory: true,
+        lifecycle: { afterRun: { stateManipulations: [] } }
+    });
+
+    it("shortens the history sent to a model before it exceeds the context length", async () => {
+        mockResponses("history", ["Done."]);
+
+        const agent = createAgent();
+        agent.history = longHistory(20);
+        await agent.invoke({ state: new State({}), task: "another question" });
+
+        const sent = getMockCalls("history")[0].config.history;
+        expect(countTokens(sent)).toBeLessThanOrEqual(1000);
+        expect(sent[0].content).toBe("The task.");
+        // the agent's own history keeps every message
+        expect(agent.history).toHaveLength(43);
+    });
+
+    it("sends the full history while it fits", async () => {
+        mockResponses("history", ["Done."]);
+
+        const agent = createAgent();
+        await agent.invoke({ state: new State({}), task: "question" });
+
+        expect(getMockCalls("history")[0].config.history).toHaveLength(1);
+    });
+
+    it("summarizes older turns with a model", async () => {
+        mockResponses("history_summarizer", ["The user asked twenty follow-ups."]);
+        mockResponses("history", ["Done."]);
+
+        const agent = createAgent(summarize({ model: "mock/summarizer", keepLast: 2 }));
+        agent.history = longHistory(20);
+        await agent.invoke({ state: new State({}), task: "another question" });
+
+        const sent = getMockCalls("history")[0].config.history;
+        expect(sent).toHaveLength(4);
+        expect(sent[1]).toEqual({ name: "summarizer", role: "system", content: "Summary of the earlier conversation: The user asked twenty follow-ups." });
+        expect(getMockCalls("history_summarizer")).toHaveLength(1);
+    });
+
+    it("summarizes with the invocation's provider configuration and signal and reports the usage", async () => {
+        mockResponses("history_summarizer", ["The user asked twenty follow-ups."]);
+        mockResponses("history", ["Done."]);
+        const controller = new AbortController();
+
+        const agent = createAgent(summarize({ model: "mock/summarizer", keepLast: 2 }));
+        agent.history = longHistory(20);
+        const result = await agent.invoke({ state: new State({}), task: "another question", signal: controller.signal, providerConfig: { mock: { apiKey: "tenant" } } });
+
+        const summarizerCall = getMockCalls("history_summarizer")[0].config;
+        expect(summarizerCall.providerConfig).toEqual({ apiKey: "tenant" });
+        expect(summarizerCall.signal).toBe(controller.signal);
+        expect(result.usage?.byAgent.history_summarizer.totalTokens).toBeGreaterThan(0);
+        expect(result.usage?.total.totalTokens).toBe(result.usage!.byAgent.history.totalTokens + result.usage!.byAgent.history_summarizer.totalTokens);
+    });
+});
@@ -0,0 +1,50 @@
+import { getMockCalls, mockResponses, State } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createAgent = (memory?: boolean) => createMockAgent("assistant", "answer", { memory });
+
+const sentTasks = (call: number) => getMockCalls("assistant")[call].config.history.map((message) => message.content);
+
+describe("invocation history", () => {
+    useMockProvider();
+
+    it("does not leak the history of earlier invocations", async () => {
+        mockResponses("assistant", [{ answer: "for alice" }, { answer: "for bob" }]);
+
+        const agent = createAgent();
+        await agent.invoke({ state: new State({ answer: "" }), task: "alice's question" });
+        const result = await agent.invoke({ state: new State({ answer: "" }), task: "bob's question" });
+
+        expect(sentTasks(1)).toHaveLength(1);
+        expect(sentTasks(1)[0]).toContain("bob's question");
+        expect(result.history).toHaveLength(2);
+        expect(agent.history).toHaveLength(0);
+    });
+
+    it("isolates concurrent invocations of a shared agent", async () => {
+        mockResponses("assistant", [{ answer: "first" }, { answer: "second" }]);
+
+        const agent = createAgent();
+        const [first, second] = await Promise.all([
+            agent.invoke({ state: new State({ answer: "" }), task: "first question" }),
+            agent.invoke({ state: new State({ answer: "" }), task: "second question" })
+        ]);
+
+        expect(first.history.map((message) => message.role)).toEqual(["user", "assistant"]);
+        expect(second.history.map((message) => message.role)).toEqual(["user", "assistant"]);
+        expect(getMockCalls("assistant").every((call) => call.config.history.length === 1)).toBe(true);
+    });
+
+    it("carries the history over to later invocations if memory is enabled", async () => {
+        mockResponses("assistant", [{ answer: "Paris" }, { answer: "2 million" }]);
+
+        const agent = createAgent(true);
+        await agent.invoke({ state: new State({ answer: "" }), task: "What is the capital of France?" });
+        const result = await agent.invoke({ state: new State({ answer: "" }), task: "How many people live there?" });
+
+        expect(sentTasks(1)).toHaveLength(3);
+        expect(sentTasks(1)[1]).toBe(JSON.stringify({ answer: "Paris" }));
+        expect(result.history).toHaveLength(2);
+        expect(agent.history).toHaveLength(4);
+    });
+});
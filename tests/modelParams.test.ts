@@ -0,0 +1,37 @@
+import { getMockCalls, IModelParams, mockResponses, Pipe, State } from "../src";
+import { toChatParams } from "../src/helper/messages";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createAgent = (name: string, modelParams?: IModelParams) => createMockAgent(name, name, { model: "mock/params", modelParams });
+
+describe("model parameters", () => {
+    useMockProvider();
+
+    it("forwards the agent's sampling parameters to the provider", async () => {
+        mockResponses("evaluator", [{ evaluator: "pass" }]);
+
+        await createAgent("evaluator", { temperature: 0, seed: 42 }).invoke({ state: new State({}), task: "evaluate" });
+
+        expect(getMockCalls("evaluator")[0].config.modelParams).toEqual({ temperature: 0, seed: 42 });
+    });
+
+    it("overrides the agents' parameters per invocation", async () => {
+        mockResponses("first", [{ first: "one" }]);
+        mockResponses("second", [{ second: "two" }]);
+
+        await new Pipe({
+            name: "creative",
+            description: "Two creative agents.",
+            workers: [createAgent("first", { temperature: 0, maxTokens: 100 }), createAgent("second")]
+        }).invoke({ state: new State({}), task: "create", modelParams: { temperature: 1.2 } });
+
+        expect(getMockCalls("first")[0].config.modelParams).toEqual({ temperature: 1.2, maxTokens: 100 });
+        expect(getMockCalls("second")[0].config.modelParams).toEqual({ temperature: 1.2 });
+    });
+
+    it("maps the parameters onto the chat completion API", () => {
+        expect(toChatParams({ temperature: 0.5, maxTokens: 10, topP: 0.9, stop: "END" }, "max_completion_tokens"))
+            .toEqual({ temperature: 0.5, max_completion_tokens: 10, top_p: 0.9, stop: "END" });
+        expect(toChatParams({ seed: 1, maxTokens: 10 })).toEqual({ seed: 1, max_tokens: 10 });
+    });
+});
@@ -0,0 +1,162 @@
+import { BadRequestError } from "openai";
+import { Completions } from "openai/resources/chat/completions";
+import { Completions as BetaCompletions } from "openai/resources/beta/chat/completions";
+import { z } from "zod";
+import { Agent, createTool, EOutput, IOpenAICompatibleModel, registerOpenAICompatibleProvider, set, State, unregisterProvider } from "../src";
+
+const completion = (content: string | null, toolCalls?: any[]) => ({
+    choices: [{ message: { role: "assistant", content, tool_calls: toolCalls } }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+const parsedCompletion = (parsed: any) => ({
+    choices: [{ message: { role: "assistant", content: JSON.stringify(parsed), parsed } }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+const createAgent = (outputType: EOutput, tools?: any[]) => new Agent({
+    name: "local_agent",
+    description: "Answers with a greeting.",
+    task: "Say hello.",
+    retries: 1,
+    model: "local/llama3.1",
+    outputType,
+    outputSchema: outputType === EOutput.TEXT ? undefined : z.object({ greeting: z.string() }),
+    tools,
+    lifecycle: {
+        afterRun: {
+            stateManipulations: outputType === EOutput.TEXT ? [] : [set("greeting")]
+        }
+    }
+});
+
+describe("openai compatible provider", () => {
+    let create: jest.SpyInstance;
+    let parse: jest.SpyInstance;
+
+    const register = (models?: Record<string, IOpenAICompatibleModel>, validationRetries?: number) => {
+        registerOpenAICompatibleProvider({ name: "local", baseURL: "http://localhost:11434/v1", models, validationRetries });
+    };
+
+    beforeEach(() => {
+        create = jest.spyOn(Completions.prototype, "create");
+        parse = jest.spyOn(BetaCompletions.prototype, "parse");
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        unregisterProvider("local");
+    });
+
+    it("requests a json_schema response format", async () => {
+        register();
+        parse.mockResolvedValueOnce(parsedCompletion({ greeting: "Hello!" }));
+
+        const state = new State({ greeting: "" });
+        const result = await createAgent(EOutput.JSON).invoke({ state, task: "greet" });
+
+        expect(parse.mock.calls[0][0].response_format.type).toBe("json_schema");
+        expect(state.getState().greeting).toBe("Hello!");
+        expect(result.usage?.total.totalTokens).toBe(15);
+    });
+
+    it("falls back to prompt-and-validate if the endpoint rejects json_schema", async () => {
+        register();
+        parse.mockRejectedValueOnce(new BadRequestError(400, {}, "response_format is not supported", {}));
+        create
+            .mockResolvedValueOnce(completion('Sure! {"greeting":"Hello!"}'))
+            .mockResolvedValueOnce(completion('{"greeting":"Hello again!"}'));
+
+        const agent = createAgent(EOutput.JSON);
+        await agent.invoke({ state: new State({ greeting: "" }), task: "greet" });
+        const state = new State({ greeting: "" });
+        await agent.invoke({ state, task: "greet" });
+
+        // the rejection is remembered for the model
+        expect(parse).toHaveBeenCalledTimes(1);
+        expect(create.mock.calls[0][0].messages[0].content).toContain('"greeting":{"type":"string"}');
+        expect(state.getState().greeting).toBe("Hello again!");
+    });
+
+    it("feeds validation errors back to the model until the retries are exhausted", async () => {
+        register({ "llama3.1": { jsonSchema: false, jsonObject: true } }, 1);
+        create
+            .mockResolvedValueOnce(completion('{"greeting":42}'))
+            .mockResolvedValueOnce(completion("no json"));
+
+        await expect(createAgent(EOutput.JSON).invoke({ state: new State({ greeting: "" }), task: "greet" }))
+            .rejects.toThrow('did not produce valid JSON for agent "local_agent" after 2 attempts');
+
+        const correction = create.mock.calls[1][0].messages.at(-1);
+        expect(create.mock.calls[0][0].response_format).toEqual({ type: "json_object" });
+        expect(correction.role).toBe("user");
+        expect(correction.content).toContain("Your answer does not match the required JSON Schema");
+        expect(parse).not.toHaveBeenCalled();
+    });
+
+    it("records the correction rounds in the history", async () => {
+        register({ "llama3.1": { jsonSchema: false } });
+        create
+            .mockResolvedValueOnce(completion('{"greeting":42}'))
+            .mockResolvedValueOnce(completion('{"greeting":"Hello!"}'));
+
+        const result = await createAgent(EOutput.JSON).invoke({ state: new State({ greeting: "" }), task: "greet" });
+
+        expect(result.history.map((message) => message.name)).toEqual(["local_agent", "local_agent", "validator", "local_agent"]);
+        expect(result.usage?.total.totalTokens).toBe(30);
+    });
+
+    it("wraps text answers into a message", async () => {
+        register();
+        create.mockResolvedValueOnce(completion("Hello!"));
+
+        const result = await createAgent(EOutput.TEXT).invoke({ state: new State({}), task: "greet" });
+
+        expect(create.mock.calls[0][0].messages[0]).toEqual({ role: "system", content: "Say hello." });
+        expect(result.output).toEqual({ message: "Hello!" });
+    });
+
+    it("calls tools until the model answers", async () => {
+        register();
+        const lookup = jest.fn(() => ({ name: "Ada" }));
+        create
+            .mockResolvedValueOnce(completion(null, [{ id: "call_1", type: "function", function: { name: "lookup", arguments: "{}" } }]))
+            .mockResolvedValueOnce(completion('{"greeting":"Hello Ada!"}'));
+
+        const state = new State({ greeting: "" });
+        const tools = [createTool({ name: "lookup", description: "Looks up the user.", schema: z.object({}), fn: lookup })];
+        const result = await createAgent(EOutput.TOOL, tools).invoke({ state, task: "greet" });
+
+        expect(create.mock.calls[0][0].tools[0].function.name).toBe("lookup");
+        expect(create.mock.calls[1][0].messages.at(-1)).toEqual({ role: "tool", tool_call_id: "call_1", content: JSON.stringify({ name: "Ada" }) });
+        expect(lookup).toHaveBeenCalledTimes(1);
+        expect(state.getState().greeting).toBe("Hello Ada!");
+        expect(result.usage?.total.totalTokens).toBe(30);
+    });
+
+    it("uses the provider configurations of the agent and the invocation", async () => {
+        register();
+        create
+            .mockResolvedValueOnce(completion("Hello!"))
+            .mockResolvedValueOnce(completion("Hello!"));
+
+        const agent = createAgent(EOutput.TEXT);
+        await agent.invoke({ state: new State({}), task: "greet" });
+        await agent.invoke({ state: new State({}), task: "greet", providerConfig: { local: { apiKey: "tenant-key", baseURL: "http://tenant:8000/v1" } } });
+
+        const [global, tenant] = create.mock.contexts.map((completions: any) => completions._client);
+        expect(global.apiKey).toBe("not-needed");
+        expect(global.baseURL).toBe("http://localhost:11434/v1");
+        expect(tenant.apiKey).toBe("tenant-key");
+        expect(tenant.baseURL).toBe("http://tenant:8000/v1");
+    });
+
+    it("rejects tool calls of models without tool support", async () => {
+        register({ "llama3.1": { tools: false } });
+
+        const tools = [createTool({ name: "lookup", description: "Looks up the user.", schema: z.object({}), fn: jest.fn() })];
+        await expect(createAgent(EOutput.TOOL, tools).invoke({ state: new State({ greeting: "" }), task: "greet" }))
+            .rejects.toThrow('Model "llama3.1" does not support tool calls');
+        expect(create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { Agent, configureProviders, EOutput, evaluate, ICompletionConfig, registerProvider, resetProviderConfigs, State, TProviderConfigs, unregisterProvider } from "../src";
+import * as openai from "../src/provider/openai";
+
+const { getOpenAIClient } = openai;
+
+const createAgent = (providerConfig?: TProviderConfigs, resultEvaluations?: any[]) => new Agent({
+    name: "tenant",
+    description: "Answers for a tenant.",
+    task: "Answer.",
+    retries: 1,
+    model: "keyed/model",
+    outputType: EOutput.JSON,
+    outputSchema: z.object({ answer: z.string() }),
+    providerConfig,
+    lifecycle: {
+        afterRun: {
+            resultEvaluations,
+            stateManipulations: []
+        }
+    }
+});
+
+describe("provider configuration", () => {
+    const configs: ICompletionConfig["providerConfig"][] = [];
+
+    beforeAll(() => {
+        registerProvider("keyed", async (config) => {
+            configs.push(config.providerConfig);
+            return { name: config.name, role: "assistant", content: JSON.stringify({ answer: "ok" }) };
+        });
+    });
+
+    afterAll(() => {
+        unregisterProvider("keyed");
+    });
+
+    beforeEach(() => {
+        configs.length = 0;
+        resetProviderConfigs();
+    });
+
+    it("resolves the global, agent and invocation configurations in that order", async () => {
+        configureProviders({ keyed: { apiKey: "global", organization: "acme" } });
+        const agent = createAgent({ keyed: { apiKey: "agent" } });
+
+        await agent.invoke({ state: new State({}), task: "answer" });
+        await agent.invoke({ state: new State({}), task: "answer", providerConfig: { keyed: { apiKey: "tenant" } } });
+
+        expect(configs).toEqual([
+            { apiKey: "agent", organization: "acme" },
+            { apiKey: "tenant", organization: "acme" }
+        ]);
+    });
+
+    it("creates one client per configuration on first use", () => {
+        configureProviders({ openai: { apiKey: "global" } });
+
+        const client = getOpenAIClient();
+        expect(getOpenAIClient({ apiKey: "global" })).toBe(client);
+        expect(getOpenAIClient({ apiKey: "other" })).not.toBe(client);
+        expect(client.apiKey).toBe("global");
+    });
+
+    it("drops the least recently used clients", () => {
+        const first = getOpenAIClient({ apiKey: "tenant-0" });
+        for (let tenant = 1; tenant <= 100; tenant++) {
+            getOpenAIClient({ apiKey: `tenant-${tenant}` });
+        }
+
+        expect(getOpenAIClient({ apiKey: "tenant-100" })).toBe(getOpenAIClient({ apiKey: "tenant-100" }));
+        expect(getOpenAIClient({ apiKey: "tenant-0" })).not.toBe(first);
+    });
+
+    it("evaluates results with the agent's and invocation's OpenAI configuration", async () => {
+        configureProviders({ openai: { apiKey: "global", organization: "acme" } });
+        const parse = jest.fn().mockResolvedValue({ choices: [{ message: { parsed: { final: true } } }] });
+        const getClient = jest.spyOn(openai, "getOpenAIClient").mockReturnValue({ beta: { chat: { completions: { parse } } } } as any);
+
+        const agent = createAgent({ openai: { apiKey: "agent" } }, [evaluate("answer", "is polite", "gpt-4o-mini")]);
+        await agent.invoke({ state: new State({}), task: "answer", providerConfig: { openai: { apiKey: "tenant" } } });
+
+        expect(getClient).toHaveBeenCalledWith({ apiKey: "tenant", organization: "acme" });
+        expect(parse).toHaveBeenCalledTimes(1);
+        getClient.mockRestore();
+    });
+});
@@ -0,0 +1,66 @@
+import { getMockCalls, ICompletionConfig, mockResponses, registerProvider, State, unregisterProvider, withRetry, TModels } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const httpError = (status: number, headers: Record<string, string> = {}) => Object.assign(new Error(`${status} status code`), { status, headers });
+
+const createAgent = (model: TModels = "mock/retry") => createMockAgent("retry", "greeting", {
+    model,
+    retryPolicy: { initialDelayMs: 1, jitter: false }
+});
+
+describe("retry policies", () => {
+    useMockProvider();
+
+    it("retries rate limits and server errors without using the evaluation retries", async () => {
+        mockResponses("retry", [httpError(429), httpError(503), { greeting: "Hello!" }]);
+
+        const state = new State({ greeting: "" });
+        await createAgent().invoke({ state, task: "greet" });
+
+        expect(getMockCalls("retry")).toHaveLength(3);
+        expect(state.getState().greeting).toBe("Hello!");
+    });
+
+    it("does not retry client errors", async () => {
+        const request = jest.fn().mockRejectedValue(httpError(400));
+
+        await expect(withRetry(request, { initialDelayMs: 1 })).rejects.toThrow("400 status code");
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it("honors the Retry-After header", async () => {
+        const request = jest.fn()
+            .mockRejectedValueOnce(httpError(429, { "retry-after": "0.05" }))
+            .mockResolvedValueOnce("ok");
+
+        const start = Date.now();
+        await expect(withRetry(request, { initialDelayMs: 1 })).resolves.toBe("ok");
+        expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+
+    it("caps the Retry-After header at maxDelayMs", async () => {
+        const request = jest.fn()
+            .mockRejectedValueOnce(httpError(429, { "retry-after": "3600" }))
+            .mockResolvedValueOnce("ok");
+
+        const start = Date.now();
+        await expect(withRetry(request, { initialDelayMs: 1, maxDelayMs: 20 })).resolves.toBe("ok");
+        expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it("merges the provider's retry policy with the agent's", async () => {
+        const policies: ICompletionConfig["retryPolicy"][] = [];
+        registerProvider("flaky", async (config) => {
+            policies.push(config.retryPolicy);
+            return withRetry(async () => { throw httpError(500); }, config.retryPolicy);
+        }, { retryPolicy: { maxRetries: 1, initialDelayMs: 1000 } });
+
+        try {
+            await expect(createAgent("flaky/model").invoke({ state: new State({}), task: "greet" }))
+                .rejects.toThrow('"flaky/model": 500 status code');
+            expect(policies[0]).toEqual({ maxRetries: 1, initialDelayMs: 1, jitter: false });
+        } finally {
+            unregisterProvider("flaky");
+        }
+    });
+});
@@ -0,0 +1,105 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { fileSessionStore, getMockCalls, localSessionStore, memorySessionStore, mockResponses, Pipe } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createAgent = (name: string = "chat") => createMockAgent(name);
+
+describe("sessions", () => {
+    let directory: string;
+
+    useMockProvider();
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(tmpdir(), "session-"));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("continues the thread of a session", async () => {
+        mockResponses("chat", [{ answer: "Hi Ada!" }, { answer: "Your name is Ada." }]);
+
+        const session = createAgent().session("thread-1", { store: memorySessionStore() });
+        await session.send("My name is Ada.");
+        const result = await session.send("What is my name?");
+
+        const sent = getMockCalls("chat")[1].config.history;
+        expect(sent).toHaveLength(3);
+        expect(sent[0].content).toContain("My name is Ada.");
+        expect(result.history).toHaveLength(2);
+        expect((await session.load()).history).toHaveLength(4);
+        expect((await session.load()).state).toEqual({ answer: "Your name is Ada." });
+    });
+
+    it("keeps sessions of a shared agent apart", async () => {
+        mockResponses("chat", [{ answer: "for alice" }, { answer: "for bob" }]);
+        const store = memorySessionStore();
+        const agent = createAgent();
+
+        await agent.session("alice", { store }).send("Hello, I am Alice.");
+        await agent.session("bob", { store }).send("Hello, I am Bob.");
+
+        expect(getMockCalls("chat")[1].config.history).toHaveLength(1);
+        expect((await agent.session("bob", { store }).load()).history).toHaveLength(2);
+    });
+
+    it("keeps both messages sent at the same time through different handles", async () => {
+        mockResponses("chat", [{ answer: "first" }, { answer: "second" }]);
+        const store = memorySessionStore();
+        const agent = createAgent();
+
+        await Promise.all([
+            agent.session("t", { store }).send("First message."),
+            agent.session("t", { store }).send("Second message.")
+        ]);
+
+        expect(getMockCalls("chat")[1].config.history).toHaveLength(3);
+        expect((await agent.session("t", { store }).load()).history).toHaveLength(4);
+    });
+
+    it("uses the history of the session instead of the memory of the agent", async () => {
+        mockResponses("chat", [{ answer: "Hi Ada!" }, { answer: "Your name is Ada." }, { answer: "Hi Bob!" }]);
+        const store = memorySessionStore();
+        const agent = createMockAgent("chat", "answer", { memory: true });
+
+        await agent.session("ada", { store }).send("My name is Ada.");
+        await agent.session("ada", { store }).send("What is my name?");
+        await agent.session("bob", { store }).send("My name is Bob.");
+
+        const [, second, other] = getMockCalls("chat").map((call) => call.config.history);
+        expect(second.map((message) => message.role)).toEqual(["user", "assistant", "user"]);
+        expect(other).toHaveLength(1);
+        expect(agent.history).toHaveLength(0);
+    });
+
+    it.each([
+        ["file store", (directory: string) => fileSessionStore(directory)],
+        ["local store", (directory: string) => localSessionStore(path.join(directory, "sessions.db.json"))],
+    ])("resumes sessions after a restart with the %s", async (_name, createStore) => {
+        mockResponses("chat", [{ answer: "Noted." }, { answer: "You like tea." }]);
+
+        await createAgent().session("thread", { store: createStore(directory), state: { answer: "" } }).send("I like tea.");
+
+        // a new agent and store, as after a restart of the process
+        const result = await createAgent().session("thread", { store: createStore(directory) }).send("What do I like?");
+
+        expect(getMockCalls("chat")[1].config.history).toHaveLength(3);
+        expect(result.state.getState().answer).toBe("You like tea.");
+    });
+
+    it("shares the history of a session with every agent of a pipe", async () => {
+        mockResponses("drafter", [{ answer: "draft 1" }, { answer: "draft 2" }]);
+        mockResponses("editor", [{ answer: "final 1" }, { answer: "final 2" }]);
+
+        const pipe = new Pipe({ name: "writers", description: "Drafts and edits.", workers: [createAgent("drafter"), createAgent("editor")] });
+        const session = pipe.session("article", { store: memorySessionStore() });
+        await session.send("Write about tea.");
+        await session.send("Make it shorter.");
+
+        expect(getMockCalls("editor")[1].config.history).toHaveLength(5);
+        expect((await session.load()).history).toHaveLength(8);
+    });
+});
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { Agent, configureProviders, EOutput, getMockCalls, Graph, isSet, mockResponses, resetProviderConfigs, set, State, TStreamEvent } from "../src";
+import { parsePartialJson } from "../src/helper/stream";
+import { getOpenAIClient } from "../src/provider/openai";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createAgent = (name: string, key: string) => createMockAgent(name, key, {
+    model: "mock/stream",
+    lifecycle: {
+        afterRun: {
+            resultEvaluations: [isSet(key)],
+            stateManipulations: [set(key)]
+        }
+    }
+});
+
+const collect = async (events: AsyncIterable<TStreamEvent>): Promise<TStreamEvent[]> => {
+    const collected: TStreamEvent[] = [];
+    for await (const event of events) {
+        collected.push(event);
+    }
+    return collected;
+}
+
+describe("streaming", () => {
+    useMockProvider();
+
+    it("parses incomplete JSON", () => {
+        expect(parsePartialJson('{"answer": "4')).toEqual({ answer: "4" });
+        expect(parsePartialJson('{"items": [1, 2,')).toEqual({ items: [1, 2] });
+        expect(parsePartialJson('{"nested": {"key":')).toEqual({ nested: { key: null } });
+        expect(parsePartialJson('{"ke')).toBeUndefined();
+    });
+
+    it("streams the events of an agent and ends with the result", async () => {
+        mockResponses("streamer", [{ answer: "42" }]);
+
+        const events = await collect(createAgent("streamer", "answer").stream({ state: new State({ answer: "" }), task: "answer" }));
+
+        expect(events.map((event) => event.type)).toEqual(["token", "partial_json", "evaluation", "result"]);
+        expect(events[1]).toEqual({ type: "partial_json", agent: "streamer", value: { answer: "42" } });
+        const last = events[events.length - 1];
+        expect(last.type === "result" && last.result.history.length).toBeGreaterThan(0);
+    });
+
+    it("streams the events of every agent in a graph", async () => {
+        const first = createAgent("first", "a");
+        const second = createAgent("second", "b");
+        const graph = new Graph({ name: "graph", description: "two steps" })
+            .addEdge("START", first)
+            .addEdge(first, second)
+            .addEdge(second, "END");
+
+        mockResponses("first", [{ a: "1" }]);
+        mockResponses("second", [{ b: "2" }]);
+
+        const events = await collect(graph.stream({ state: new State({ a: "", b: "" }), task: "steps" }));
+        const tokenAgents = events.flatMap((event) => event.type === "token" ? [event.agent] : []);
+
+        expect(tokenAgents).toEqual(["first", "second"]);
+        expect(events.filter((event) => event.type === "result")).toHaveLength(1);
+    });
+
+    it("rejects when the invocation fails", async () => {
+        mockResponses("failing", [new Error("provider down")]);
+
+        await expect(collect(createAgent("failing", "answer").stream({ state: new State({}), task: "answer" })))
+            .rejects.toThrow("provider down");
+    });
+
+    it("cancels the invocation if the iteration ends early", async () => {
+        let started: () => void;
+        const secondStarted = new Promise<void>((resolve) => { started = resolve; });
+        mockResponses("first", [{ a: "1" }]);
+        mockResponses("second", [() => {
+            started();
+            return new Promise(() => { });
+        }]);
+
+        const first = createAgent("first", "a");
+        const second = createAgent("second", "b");
+        const graph = new Graph({ name: "steps", description: "Two steps." })
+            .addEdge("START", first)
+            .addEdge(first, second)
+            .addEdge(second, "END");
+
+        const events = graph.stream({ state: new State({ a: "", b: "" }), task: "steps" });
+        await events.next();
+        await secondStarted;
+        await events.return(undefined as any);
+
+        expect(getMockCalls("second")[0].config.signal?.aborted).toBe(true);
+    });
+
+    it("validates streamed structured output against the output schema", async () => {
+        resetProviderConfigs();
+        configureProviders({ openai: { apiKey: "test" } });
+        const chunks = ['{"answer":', '42}'].map((content) => ({ choices: [{ delta: { content } }] }));
+        jest.spyOn(getOpenAIClient().chat.completions, "create").mockResolvedValueOnce((async function* () { yield* chunks; })() as any);
+
+        const agent = new Agent({
+            name: "openai_streamer",
+            description: "Answers.",
+            task: "Answer.",
+            retries: 1,
+            model: "openai/gpt-4o-mini",
+            outputType: EOutput.JSON,
+            outputSchema: z.object({ answer: z.string() }),
+            lifecycle: { afterRun: { stateManipulations: [] } }
+        });
+
+        await expect(collect(agent.stream({ state: new State({}), task: "answer" })))
+            .rejects.toThrow("streamed output not matching the output schema");
+    });
+});
@@ -0,0 +1,90 @@
+import { compileTemplate, getMockCalls, ITemplate, mockResponses, State, template } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+interface IWeatherState {
+    city: string,
+    weather: { humidity: number, temperature: number },
+    alerts: { title: string }[]
+}
+
+const weatherTemplate = template<IWeatherState>();
+
+const state: IWeatherState = {
+    city: "Berlin",
+    weather: { humidity: 80, temperature: 12 },
+    alerts: [{ title: "Storm" }, { title: "Rain" }]
+};
+
+const createAgent = (task: string | ITemplate, banner?: string | false) => createMockAgent("reporter", "report", {
+    task,
+    banner,
+    lifecycle: {
+        afterRun: {
+            stateManipulations: []
+        }
+    }
+});
+
+describe("templates", () => {
+    useMockProvider();
+
+    it("renders state values and the user task", () => {
+        const rendered = weatherTemplate("{{ state.city }}: {{state.weather.humidity}}% humidity. {{task}}").render({ state, task: "Report." });
+
+        expect(rendered).toBe("Berlin: 80% humidity. Report.");
+    });
+
+    it("renders conditionals and loops", () => {
+        const alerts = weatherTemplate("{{#if state.alerts}}Alerts:{{#each state.alerts}} {{@index}}. {{this.title}}{{/each}}{{else}}No alerts.{{/if}}");
+
+        expect(alerts.render({ state, task: "" })).toBe("Alerts: 0. Storm 1. Rain");
+        expect(alerts.render({ state: { ...state, alerts: [] }, task: "" })).toBe("No alerts.");
+    });
+
+    it("renders objects deterministically", () => {
+        const weather = compileTemplate("{{state.weather}}");
+
+        expect(weather.render({ state: { weather: { temperature: 12, humidity: 80 } }, task: "" })).toBe('{"humidity":80,"temperature":12}');
+    });
+
+    it("rejects invalid templates when they are compiled", () => {
+        expect(() => compileTemplate("{{#if state.alerts}}open")).toThrow('"{{#if state.alerts}}" is not closed');
+        expect(() => compileTemplate("{{else}}")).toThrow("outside of an");
+        expect(() => compileTemplate("{{/each}}")).toThrow('unexpected "{{/each}}"');
+        expect(() => compileTemplate("{{weather.humidity}}")).toThrow("Invalid template placeholder");
+    });
+
+    it("checks placeholders against the state type", () => {
+        // @ts-expect-error the state has no wind
+        expect(() => weatherTemplate("{{state.weather.wind}}")).not.toThrow();
+        // @ts-expect-error the state has no forecast
+        expect(() => weatherTemplate("{{#each state.forecast}}{{/each}}")).not.toThrow();
+    });
+
+    it("renders the task of an agent with the invocation's state", async () => {
+        mockResponses("reporter", [{ report: "Humid." }]);
+
+        await createAgent(weatherTemplate("Report the humidity of {{state.city}}: {{state.weather.humidity}}%.")).invoke({ state: new State(state), task: "Be brief." });
+
+        expect(getMockCalls("reporter")[0].config.history[0].content).toContain("Report the humidity of Berlin: 80%.");
+    });
+
+    it("fails the invocation if a placeholder is missing from the state", async () => {
+        const agent = createAgent(compileTemplate("Report {{state.city}}."));
+
+        await expect(agent.invoke({ state: new State({}), task: "Be brief." })).rejects.toThrow('Task template of agent "reporter" failed');
+    });
+
+    it("replaces or removes the banner", async () => {
+        mockResponses("reporter", [{ report: "a" }, { report: "b" }, { report: "c" }]);
+
+        await createAgent("Report the weather.").invoke({ state: new State({}), task: "Be brief." });
+        await createAgent("Report the weather.", "The user asks:").invoke({ state: new State({}), task: "Be brief." });
+        await createAgent("Report the weather.", false).invoke({ state: new State({}), task: "Be brief." });
+
+        const sent = getMockCalls("reporter").map((call) => call.config.history[0].content);
+        expect(sent[0]).toContain("!PLEASE LOOK ALWAYS AT THE SYSTEM MESSAGES");
+        expect(sent[1]).toBe("Report the weather.\n\nThe user asks:\n\nBe brief.");
+        expect(sent[2]).toBe("Report the weather.\n\nBe brief.");
+    });
+});
@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { Agent, createTool, EOutput, getMockCalls, mockResponses, State } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createResearcher = (fns: { search: jest.Mock, fetch: jest.Mock }, maxToolIterations?: number) => createMockAgent("researcher", "summary", {
+    outputType: EOutput.TOOL,
+    maxToolIterations,
+    tools: [
+        createTool({ name: "search", description: "Searches the web.", schema: z.object({ query: z.string() }), fn: fns.search }),
+        createTool({ name: "fetch", description: "Fetches a page.", schema: z.object({ url: z.string() }), fn: fns.fetch }),
+    ]
+});
+
+describe("tool calling loop", () => {
+    let fns: { search: jest.Mock, fetch: jest.Mock };
+
+    useMockProvider();
+
+    beforeEach(() => {
+        fns = {
+            search: jest.fn(() => ({ urls: ["https://example.com"] })),
+            fetch: jest.fn(() => ({ text: "Example page" })),
+        };
+    });
+
+    it("sends tool results back to the model until it answers", async () => {
+        mockResponses("researcher", [
+            { tool: "search", arguments: { query: "example" } },
+            { tool: "fetch", arguments: { url: "https://example.com" } },
+            { summary: "An example page." }
+        ]);
+
+        const state = new State({ summary: "" });
+        const result = await createResearcher(fns).invoke({ state, task: "example" });
+
+        expect(fns.search).toHaveBeenCalledWith({ query: "example" }, expect.objectContaining({ agent: "researcher" }));
+        expect(fns.fetch).toHaveBeenCalledWith({ url: "https://example.com" }, expect.objectContaining({ agent: "researcher" }));
+        expect(state.getState().summary).toBe("An example page.");
+
+        const thirdTurn = getMockCalls("researcher")[2].config.history;
+        expect(thirdTurn.filter((message) => message.role === "tool").map((message) => message.content))
+            .toEqual([JSON.stringify({ urls: ["https://example.com"] }), JSON.stringify({ text: "Example page" })]);
+        expect(result.history.map((message) => message.role)).toEqual(["user", "assistant", "tool", "assistant", "tool", "assistant"]);
+        expect(result.history[2].tool_call_id).toBe(result.history[1].tool_calls?.[0].id);
+    });
+
+    it("requires an answer after maxToolIterations rounds", async () => {
+        mockResponses("researcher", [
+            { tool: "search", arguments: { query: "example" } },
+            { tool: "search", arguments: { query: "again" } },
+        ]);
+
+        await expect(createResearcher(fns, 1).invoke({ state: new State({}), task: "example" }))
+            .rejects.toThrow('Agent "researcher" did not produce a valid final answer after 1 tool iterations');
+        expect(fns.search).toHaveBeenCalledTimes(1);
+    });
+
+    it("sends schema violations of the final answer back to the model", async () => {
+        mockResponses("researcher", [
+            { wrong: "field" },
+            { summary: "Fixed." }
+        ]);
+
+        const state = new State({ summary: "" });
+        await createResearcher(fns).invoke({ state, task: "example" });
+
+        const secondTurn = getMockCalls("researcher")[1].config.history;
+        expect(secondTurn[secondTurn.length - 1].content).toContain("does not match the required output schema");
+        expect(state.getState().summary).toBe("Fixed.");
+    });
+
+    it("runs all tool calls of a turn and reports each result in call order", async () => {
+        const running: string[] = [];
+        let overlapped = false;
+        const slow = (name: string) => jest.fn(async () => {
+            running.push(name);
+            overlapped ||= running.length > 1;
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            running.splice(running.indexOf(name), 1);
+            return { from: name };
+        });
+        fns = { search: slow("search"), fetch: slow("fetch") };
+
+        mockResponses("researcher", [
+            [{ tool: "search", arguments: { query: "example" } }, { tool: "fetch", arguments: { url: "https://example.com" } }],
+            { summary: "Done." }
+        ]);
+
+        const result = await createResearcher(fns).invoke({ state: new State({ summary: "" }), task: "example" });
+
+        expect(overlapped).toBe(true);
+        const toolMessages = result.history.filter((message) => message.role === "tool");
+        expect(toolMessages.map((message) => message.content)).toEqual([JSON.stringify({ from: "search" }), JSON.stringify({ from: "fetch" })]);
+        expect(toolMessages.map((message) => message.tool_call_id)).toEqual(result.history[1].tool_calls?.map((toolCall) => toolCall.id));
+    });
+
+    it("never runs a serial tool concurrently", async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const counter = createTool({
+            name: "counter",
+            description: "A non-reentrant tool.",
+            schema: z.object({}),
+            concurrent: false,
+            fn: async () => {
+                maxRunning = Math.max(maxRunning, ++running);
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                running--;
+                return { ok: true };
+            }
+        });
+        const agent = new Agent({
+            name: "counter_agent",
+            description: "Counts.",
+            task: "Count.",
+            retries: 1,
+            model: "mock/counter",
+            outputType: EOutput.TOOL,
+            tools: [counter],
+            lifecycle: { afterRun: { stateManipulations: [] } }
+        });
+
+        mockResponses("counter_agent", [
+            [{ tool: "counter", arguments: {} }, { tool: "counter", arguments: {} }, { tool: "counter", arguments: {} }],
+            "done"
+        ]);
+
+        await agent.invoke({ state: new State({}), task: "count" });
+
+        expect(maxRunning).toBe(1);
+    });
+
+    it("sends invalid tool arguments back to the model instead of calling the tool", async () => {
+        mockResponses("researcher", [
+            { tool: "search", arguments: { query: 42 } },
+            { tool: "search", arguments: { query: "example" } },
+            { summary: "Corrected." }
+        ]);
+
+        const result = await createResearcher(fns).invoke({ state: new State({ summary: "" }), task: "example" });
+
+        expect(fns.search).toHaveBeenCalledTimes(1);
+        expect(fns.search).toHaveBeenCalledWith({ query: "example" }, expect.objectContaining({ agent: "researcher" }));
+        const firstToolMessage = result.history.find((message) => message.role === "tool");
+        expect(JSON.parse(firstToolMessage?.content).error).toContain('Invalid arguments for tool "search"');
+    });
+
+    it("sends errors thrown by a tool back to the model and keeps the results of the other tools", async () => {
+        fns.search = jest.fn(() => { throw new Error("search is down"); });
+        mockResponses("researcher", [
+            [{ tool: "search", arguments: { query: "example" } }, { tool: "fetch", arguments: { url: "https://example.com" } }],
+            { summary: "Fetched without search." }
+        ]);
+
+        const state = new State({ summary: "" });
+        const result = await createResearcher(fns).invoke({ state, task: "example" });
+
+        const toolMessages = result.history.filter((message) => message.role === "tool");
+        expect(JSON.parse(toolMessages[0].content)).toEqual({ error: 'Tool "search" failed: search is down' });
+        expect(JSON.parse(toolMessages[1].content)).toEqual({ text: "Example page" });
+        expect(getMockCalls("researcher")[1].config.history).toEqual(expect.arrayContaining(toolMessages));
+        expect(state.getState().summary).toBe("Fetched without search.");
+    });
+});
@@ -0,0 +1,93 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { z } from "zod";
+import { Agent, configureProviders, EModels, EOutput, getMockCalls, getMockTranscriptions, mockResponses, Pipe, resetMock, resetProviderConfigs, set, State, TranscriptionAgent } from "../src";
+import { getGroqClient } from "../src/provider/groq";
+
+const createTranscriber = (model: string = "mock/whisper") => new TranscriptionAgent({
+    name: "transcriber",
+    description: "Transcribes voice notes.",
+    model,
+    lifecycle: {
+        afterRun: {
+            stateManipulations: [set("text", "transcript"), set("segments"), set("language")]
+        }
+    }
+});
+
+describe("transcription agents", () => {
+    beforeEach(() => {
+        resetMock();
+    });
+
+    it("writes the transcript into the state and starts a pipe with it", async () => {
+        mockResponses("transcriber", [{
+            text: "Book a table for two.",
+            segments: [{ start: 0, end: 1.5, text: "Book a table for two." }],
+            language: "english"
+        }]);
+        mockResponses("booker", [(config: any) => ({ booking: config.history[0].content.includes("booking") ? "done" : "missing" })]);
+
+        const booker = new Agent({
+            name: "booker",
+            description: "Books tables.",
+            task: "Book the table of the transcript.",
+            retries: 1,
+            model: "mock/booker",
+            outputType: EOutput.JSON,
+            outputSchema: z.object({ booking: z.string() }),
+            lifecycle: {
+                afterRun: {
+                    stateManipulations: [set("booking")]
+                }
+            }
+        });
+        const audio = { data: Buffer.from("audio"), name: "voice-note.m4a" };
+
+        const state = new State({ transcript: "", segments: [], language: "", booking: "" });
+        await new Pipe({
+            name: "voice_notes",
+            description: "Handles voice notes.",
+            workers: [createTranscriber(), booker]
+        }).invoke({ state, task: "Handle the booking in the voice note.", audio });
+
+        expect(getMockTranscriptions("transcriber")[0].config.audio).toBe(audio);
+        expect(state.getState()).toEqual({
+            transcript: "Book a table for two.",
+            segments: [{ start: 0, end: 1.5, text: "Book a table for two." }],
+            language: "english",
+            booking: "done"
+        });
+        expect(getMockCalls("booker")).toHaveLength(1);
+    });
+
+    it("requires an audio input and a provider with transcriptions", async () => {
+        await expect(createTranscriber().invoke({ state: new State({}), task: "transcribe" }))
+            .rejects.toThrow('TranscriptionAgent "transcriber" requires an audio input in the invocation.');
+        await expect(createTranscriber("anthropic/whisper").invoke({ state: new State({}), task: "transcribe", audio: { path: "note.mp3" } }))
+            .rejects.toThrow('Provider "anthropic" does not support transcriptions.');
+    });
+
+    it("requests verbose transcriptions from Groq", async () => {
+        resetProviderConfigs();
+        configureProviders({ groq: { apiKey: "test" } });
+        const create = jest.spyOn(getGroqClient().audio.transcriptions, "create").mockResolvedValueOnce({
+            text: " Hello. ",
+            language: "english",
+            segments: [{ id: 0, start: 0, end: 1, text: " Hello. " }]
+        } as any);
+
+        const directory = mkdtempSync(path.join(tmpdir(), "audio-"));
+        try {
+            writeFileSync(path.join(directory, "note.mp3"), "audio");
+            const state = new State({ transcript: "", segments: [], language: "" });
+            await createTranscriber(EModels.whisper_large_v3).invoke({ state, task: "transcribe", audio: { path: path.join(directory, "note.mp3") } });
+
+            expect(create.mock.calls[0][0]).toMatchObject({ model: "whisper-large-v3", response_format: "verbose_json" });
+            expect(state.getState()).toEqual({ transcript: "Hello.", segments: [{ start: 0, end: 1, text: "Hello." }], language: "english" });
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
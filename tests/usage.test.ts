@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { Agent, createTool, EModels, EOutput, estimateCost, mockResponses, Pipe, registerModelPricing, State, TModels } from "../src";
+import { createMockAgent, useMockProvider } from "./helpers";
+
+const createAgent = (name: string, model: TModels | TModels[] = "mock/usage") => createMockAgent(name, name, { model });
+
+describe("usage accounting", () => {
+    useMockProvider();
+
+    it("reports the usage and estimated cost of an agent", async () => {
+        registerModelPricing("mock/priced", { input: 1, output: 2 });
+        mockResponses("first", [{ first: "one" }]);
+
+        const result = await createAgent("first", "mock/priced").invoke({ state: new State({}), task: "count" });
+        const answer = result.history.find((message) => message.role === "assistant")!;
+
+        expect(answer.usage?.completionTokens).toBeGreaterThan(0);
+        expect(result.usage?.total.totalTokens).toBe(answer.usage?.totalTokens);
+        expect(result.usage?.total.cost).toBeCloseTo((answer.usage!.promptTokens + answer.usage!.completionTokens * 2) / 1_000_000);
+        expect(result.usage?.byAgent.first).toEqual(result.usage?.total);
+    });
+
+    it("aggregates the usage of a pipe per agent and per node", async () => {
+        mockResponses("first", [{ first: "one" }]);
+        mockResponses("second", [{ second: "two" }]);
+
+        const result = await new Pipe({
+            name: "counting",
+            description: "Counts to two.",
+            workers: [createAgent("first"), createAgent("second")]
+        }).invoke({ state: new State({}), task: "count" });
+
+        const { total, byAgent, byNode } = result.usage!;
+        expect(Object.keys(byAgent)).toEqual(["first", "second"]);
+        expect(byNode.first).toEqual(byAgent.first);
+        expect(total.totalTokens).toBe(byAgent.first.totalTokens + byAgent.second.totalTokens);
+    });
+
+    it("reports the usage of models which failed over", async () => {
+        registerModelPricing("mock/rejected", { input: 1, output: 1 });
+        mockResponses("first", [{ first: 1 }, { first: "one" }]);
+
+        const result = await createAgent("first", ["mock/rejected", "mock/usage"]).invoke({ state: new State({}), task: "count" });
+        const answer = result.history.find((message) => message.role === "assistant")!;
+
+        expect(result.history.filter((message) => message.role === "assistant")).toHaveLength(1);
+        expect(result.usage?.total.totalTokens).toBeGreaterThan(answer.usage!.totalTokens);
+        expect(result.usage?.total.cost).toBeGreaterThan(0);
+    });
+
+    it("sums the model turns of a tool calling loop", async () => {
+        const agent = new Agent({
+            name: "tools",
+            description: "Looks something up.",
+            task: "Look it up.",
+            retries: 1,
+            model: "mock/tools",
+            outputType: EOutput.TOOL,
+            tools: [createTool({ name: "lookup", description: "Looks up a value.", schema: z.object({}), fn: () => "value" })],
+            lifecycle: { afterRun: { stateManipulations: [] } }
+        });
+        mockResponses("tools", [{ tool: "lookup" }, "done"]);
+
+        const result = await agent.invoke({ state: new State({}), task: "look up" });
+        const turns = result.history.filter((message) => message.role === "assistant");
+
+        expect(turns).toHaveLength(2);
+        expect(result.usage?.total.totalTokens).toBe(turns[0].usage!.totalTokens + turns[1].usage!.totalTokens);
+    });
+
+    it("bills cached prompt tokens at the cached input price", () => {
+        const usage = { promptTokens: 1_000_000, completionTokens: 0, cachedTokens: 500_000, totalTokens: 1_000_000 };
+
+        expect(estimateCost(EModels.gpt_4o, usage)).toBeCloseTo(0.5 * 2.5 + 0.5 * 1.25);
+        expect(estimateCost("unknown/model", usage)).toBe(0);
+    });
+});